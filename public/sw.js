@@ -0,0 +1,44 @@
+// Service worker for Web Push. Payloads come from the send-push Edge
+// Function as { title, body, url, tag, icon }.
+
+self.addEventListener("install", () => self.skipWaiting());
+
+// Take control of open tabs right away so notification clicks can reuse them
+self.addEventListener("activate", (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "SocialHub", {
+      body: data.body,
+      icon: data.icon || "/favicon.ico",
+      tag: data.tag,
+      data: { url: data.url || "/notifications" },
+    })
+  );
+});
+
+// Open the post or profile, reusing an open tab when there is one
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || "/notifications", self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const client = windows.find((w) => new URL(w.url).origin === self.location.origin);
+
+      if (client) {
+        try {
+          await client.focus();
+          await client.navigate(url);
+          return;
+        } catch {
+          // Tabs this worker doesn't control can't be navigated
+        }
+      }
+      await self.clients.openWindow(url);
+    })()
+  );
+});
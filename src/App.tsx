@@ -3,12 +3,21 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import NotificationsProvider from "@/components/NotificationsProvider";
 import Home from "./pages/Home";
 import Auth from "./pages/Auth";
 import Create from "./pages/Create";
 import Explore from "./pages/Explore";
+import Reels from "./pages/Reels";
 import Profile from "./pages/Profile";
 import Notifications from "./pages/Notifications";
+import NotificationSettings from "./pages/NotificationSettings";
+import BlockedAccounts from "./pages/BlockedAccounts";
+import Messages from "./pages/Messages";
+import Conversation from "./pages/Conversation";
+import PostDetail from "./pages/PostDetail";
+import Tag from "./pages/Tag";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,16 +28,27 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Home />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/create" element={<Create />} />
-          <Route path="/explore" element={<Explore />} />
-          <Route path="/profile" element={<Profile />} />
-          <Route path="/notifications" element={<Notifications />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <NotificationsProvider>
+          <Routes>
+            <Route path="/" element={<Home />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/create" element={<Create />} />
+            <Route path="/explore" element={<Explore />} />
+            <Route path="/reels" element={<Reels />} />
+            <Route path="/profile" element={<Profile />} />
+            <Route path="/notifications" element={<Notifications />} />
+            <Route path="/settings/notifications" element={<NotificationSettings />} />
+            <Route path="/settings/blocked" element={<BlockedAccounts />} />
+            <Route path="/direct" element={<Messages />} />
+            <Route path="/direct/:conversationId" element={<Conversation />} />
+            <Route path="/p/:postId" element={<PostDetail />} />
+            <Route path="/u/:username" element={<Profile />} />
+            <Route path="/tags/:name" element={<Tag />} />
+            <Route path="/admin" element={<Admin />} />
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </NotificationsProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
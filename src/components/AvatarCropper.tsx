@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from "react";
+import { Slider } from "./ui/slider";
+import { Label } from "./ui/label";
+import {
+  drawEditedImage,
+  getImagePlacement,
+  loadImage,
+  type ImageEdits,
+} from "@/lib/image-editing";
+
+interface AvatarCropperProps {
+  src: string;
+  edits: ImageEdits;
+  onChange: (edits: ImageEdits) => void;
+}
+
+const PREVIEW_SIZE = 320;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+// Square pan-and-zoom crop with a circular guide showing how the avatar
+// will appear
+const AvatarCropper = ({ src, edits, onChange }: AvatarCropperProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src).then((loaded) => {
+      if (!cancelled) setImage(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !image) return;
+    drawEditedImage(ctx, image, edits, PREVIEW_SIZE, PREVIEW_SIZE);
+  }, [image, edits]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !image) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = PREVIEW_SIZE / rect.width;
+    const dx = (e.clientX - dragRef.current.x) * ratio;
+    const dy = (e.clientY - dragRef.current.y) * ratio;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    const { maxPanX, maxPanY } = getImagePlacement(image, edits, PREVIEW_SIZE, PREVIEW_SIZE);
+    onChange({
+      ...edits,
+      offsetX: maxPanX > 0 ? clamp(edits.offsetX + dx / maxPanX, -1, 1) : 0,
+      offsetY: maxPanY > 0 ? clamp(edits.offsetY + dy / maxPanY, -1, 1) : 0,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative mx-auto aspect-square w-full max-w-xs overflow-hidden rounded-lg bg-muted">
+        <canvas
+          ref={canvasRef}
+          width={PREVIEW_SIZE}
+          height={PREVIEW_SIZE}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="h-full w-full cursor-move touch-none"
+        />
+        <div className="pointer-events-none absolute inset-0 rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Zoom</Label>
+        <Slider
+          min={1}
+          max={3}
+          step={0.01}
+          value={[edits.zoom]}
+          onValueChange={([zoom]) => onChange({ ...edits, zoom })}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default AvatarCropper;
@@ -0,0 +1,56 @@
+import { Fragment, ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { HASHTAG_PATTERN } from "@/lib/hashtags";
+import { MENTION_PATTERN } from "@/lib/mentions";
+
+// Matches either a #hashtag (group 1) or an @mention (group 2)
+const TOKEN_PATTERN = new RegExp(
+  `${HASHTAG_PATTERN.source}|${MENTION_PATTERN.source}`,
+  "gu"
+);
+
+interface CaptionTextProps {
+  text: string;
+}
+
+const CaptionText = ({ text }: CaptionTextProps) => {
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push(text.slice(lastIndex, index));
+    }
+
+    const [token, hashtag, username] = match;
+    parts.push(
+      <Link
+        key={index}
+        to={
+          hashtag
+            ? `/tags/${encodeURIComponent(hashtag.toLowerCase())}`
+            : `/u/${username}`
+        }
+        className="text-primary hover:underline"
+      >
+        {token}
+      </Link>
+    );
+    lastIndex = index + token.length;
+  }
+
+  if (lastIndex < text.length) {
+    parts.push(text.slice(lastIndex));
+  }
+
+  return (
+    <>
+      {parts.map((part, i) => (
+        <Fragment key={i}>{part}</Fragment>
+      ))}
+    </>
+  );
+};
+
+export default CaptionText;
@@ -0,0 +1,360 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "./ui/sheet";
+import { ScrollArea } from "./ui/scroll-area";
+import { Button } from "./ui/button";
+import MentionTextarea from "./MentionTextarea";
+import CaptionText from "./CaptionText";
+import ReportDialog from "./ReportDialog";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Loader2, Send, X } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+
+interface Comment {
+  id: string;
+  user_id: string;
+  post_id: string;
+  parent_id: string | null;
+  content: string;
+  created_at: string;
+  updated_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+interface CommentsSheetProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCountChange?: (count: number) => void;
+}
+
+const CommentsSheet = ({
+  postId,
+  open,
+  onOpenChange,
+  onCountChange,
+}: CommentsSheetProps) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<Comment | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [reporting, setReporting] = useState<Comment | null>(null);
+
+  const fetchComments = useCallback(async () => {
+    setLoading(true);
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      setCurrentUserId(user?.id ?? null);
+
+      const { data, error } = await supabase
+        .from("comments")
+        .select(
+          `
+          *,
+          profiles (username, avatar_url)
+        `
+        )
+        .eq("post_id", postId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+      const rows = (data as unknown as Comment[]) || [];
+      setComments(rows);
+      onCountChange?.(rows.length);
+    } catch (error) {
+      console.error("Error fetching comments:", error);
+      toast.error("Failed to load comments");
+    } finally {
+      setLoading(false);
+    }
+  }, [postId, onCountChange]);
+
+  useEffect(() => {
+    if (open) {
+      fetchComments();
+    }
+  }, [open, fetchComments]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = content.trim();
+    if (!text || !currentUserId) return;
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.from("comments").insert({
+        post_id: postId,
+        user_id: currentUserId,
+        content: text,
+        parent_id: replyTo?.id ?? null,
+      });
+
+      if (error) throw error;
+
+      setContent("");
+      setReplyTo(null);
+      await fetchComments();
+    } catch (error) {
+      console.error("Error adding comment:", error);
+      toast.error("Failed to add comment");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!editing) return;
+    const text = editContent.trim();
+    if (!text) return;
+
+    try {
+      // Only apply the edit if nobody changed the comment since it was loaded
+      const { data, error } = await supabase
+        .from("comments")
+        .update({ content: text })
+        .eq("id", editing.id)
+        .eq("updated_at", editing.updated_at)
+        .select("id");
+
+      if (error) throw error;
+      if (!data || data.length === 0) {
+        // Keep the draft open against the latest version so saving again
+        // applies it on purpose
+        const { data: latest } = await supabase
+          .from("comments")
+          .select("updated_at")
+          .eq("id", editing.id)
+          .maybeSingle();
+        if (latest) {
+          setEditing({ ...editing, updated_at: latest.updated_at });
+          toast.error("This comment was changed elsewhere. Save again to replace it.");
+        } else {
+          setEditing(null);
+          toast.error("This comment was deleted.");
+        }
+        await fetchComments();
+        return;
+      }
+
+      setEditing(null);
+      setEditContent("");
+      await fetchComments();
+    } catch (error) {
+      console.error("Error updating comment:", error);
+      toast.error("Failed to update comment");
+    }
+  };
+
+  const handleDelete = async (comment: Comment) => {
+    try {
+      const { error } = await supabase
+        .from("comments")
+        .delete()
+        .eq("id", comment.id);
+
+      if (error) throw error;
+      await fetchComments();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      toast.error("Failed to delete comment");
+    }
+  };
+
+  const startEditing = (comment: Comment) => {
+    setEditing(comment);
+    setEditContent(comment.content);
+  };
+
+  const topLevel = comments.filter((comment) => !comment.parent_id);
+  const repliesFor = (parentId: string) =>
+    comments.filter((comment) => comment.parent_id === parentId);
+
+  const renderComment = (comment: Comment, isReply = false) => {
+    const isOwn = comment.user_id === currentUserId;
+    const isEdited =
+      new Date(comment.updated_at).getTime() >
+      new Date(comment.created_at).getTime();
+
+    return (
+      <div key={comment.id} className={`flex gap-3 ${isReply ? "ml-11" : ""}`}>
+        <Avatar className={isReply ? "h-6 w-6" : "h-8 w-8"}>
+          <AvatarImage src={comment.profiles.avatar_url || undefined} />
+          <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white text-xs">
+            {comment.profiles.username[0].toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 space-y-1">
+          {editing?.id === comment.id ? (
+            <div className="space-y-2">
+              <MentionTextarea
+                value={editContent}
+                onChange={setEditContent}
+                rows={2}
+                maxLength={2200}
+              />
+              <div className="flex gap-2">
+                <Button size="sm" onClick={handleUpdate}>
+                  Save
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditing(null)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="text-sm break-words">
+              <Link
+                to={`/u/${comment.profiles.username}`}
+                className="font-semibold mr-2 hover:underline"
+              >
+                {comment.profiles.username}
+              </Link>
+              <CaptionText text={comment.content} />
+            </p>
+          )}
+
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span>
+              {formatDistanceToNow(new Date(comment.created_at), {
+                addSuffix: true,
+              })}
+            </span>
+            {isEdited && <span>(edited)</span>}
+            {!isReply && currentUserId && (
+              <button
+                className="font-semibold hover:text-foreground"
+                onClick={() => setReplyTo(comment)}
+              >
+                Reply
+              </button>
+            )}
+            {isOwn && editing?.id !== comment.id && (
+              <>
+                <button
+                  className="font-semibold hover:text-foreground"
+                  onClick={() => startEditing(comment)}
+                >
+                  Edit
+                </button>
+                <button
+                  className="font-semibold hover:text-destructive"
+                  onClick={() => handleDelete(comment)}
+                >
+                  Delete
+                </button>
+              </>
+            )}
+            {!isOwn && currentUserId && (
+              <button
+                className="font-semibold hover:text-destructive"
+                onClick={() => setReporting(comment)}
+              >
+                Report
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-md flex flex-col p-0">
+        <SheetHeader className="p-4 border-b border-border">
+          <SheetTitle>Comments</SheetTitle>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 px-4">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : topLevel.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-muted-foreground text-sm">
+                No comments yet. Start the conversation.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4 py-4">
+              {topLevel.map((comment) => (
+                <div key={comment.id} className="space-y-3">
+                  {renderComment(comment)}
+                  {repliesFor(comment.id).map((reply) =>
+                    renderComment(reply, true)
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+
+        {currentUserId && (
+          <form
+            onSubmit={handleSubmit}
+            className="border-t border-border p-4 space-y-2"
+          >
+            {replyTo && (
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>Replying to {replyTo.profiles.username}</span>
+                <button type="button" onClick={() => setReplyTo(null)}>
+                  <X className="h-3 w-3" />
+                </button>
+              </div>
+            )}
+            <div className="flex items-end gap-2">
+              <MentionTextarea
+                placeholder="Add a comment..."
+                value={content}
+                onChange={setContent}
+                suggestionsPlacement="top"
+                rows={1}
+                maxLength={2200}
+                className="min-h-[40px] resize-none"
+              />
+              <Button
+                type="submit"
+                size="icon"
+                disabled={submitting || !content.trim()}
+              >
+                {submitting ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Send className="h-4 w-4" />
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        {reporting && (
+          <ReportDialog
+            target={{ type: "comment", id: reporting.id }}
+            currentUserId={currentUserId}
+            open
+            onOpenChange={(open) => !open && setReporting(null)}
+          />
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CommentsSheet;
@@ -0,0 +1,25 @@
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Participant } from "@/lib/messages";
+
+interface ConversationAvatarProps {
+  isGroup: boolean;
+  participants: Participant[];
+  className?: string;
+}
+
+const ConversationAvatar = ({ isGroup, participants, className }: ConversationAvatarProps) => {
+  const first = participants[0];
+
+  return (
+    <Avatar className={cn("h-12 w-12", className)}>
+      {!isGroup && <AvatarImage src={first?.avatar_url || undefined} />}
+      <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+        {isGroup || !first ? <Users className="h-5 w-5" /> : first.username[0].toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+};
+
+export default ConversationAvatar;
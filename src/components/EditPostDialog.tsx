@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import MentionTextarea from "./MentionTextarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface EditPostDialogProps {
+  post: {
+    id: string;
+    caption: string | null;
+    location: string | null;
+  };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EditPostDialog = ({ post, open, onOpenChange, onSaved }: EditPostDialogProps) => {
+  const [caption, setCaption] = useState(post.caption || "");
+  const [location, setLocation] = useState(post.location || "");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCaption(post.caption || "");
+      setLocation(post.location || "");
+    }
+  }, [open, post.caption, post.location]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { error } = await supabase
+        .from("posts")
+        .update({
+          caption: caption.trim() || null,
+          location: location.trim() || null,
+        })
+        .eq("id", post.id);
+
+      if (error) throw error;
+
+      toast.success("Post updated");
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error updating post:", error);
+      toast.error("Failed to update post");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit post</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor={`caption-${post.id}`}>Caption</Label>
+            <MentionTextarea
+              id={`caption-${post.id}`}
+              value={caption}
+              onChange={setCaption}
+              rows={4}
+              maxLength={2200}
+            />
+            <p className="text-xs text-muted-foreground text-right">
+              {caption.length}/2200
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`location-${post.id}`}>Location</Label>
+            <Input
+              id={`location-${post.id}`}
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              maxLength={100}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditPostDialog;
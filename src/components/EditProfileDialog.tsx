@@ -0,0 +1,471 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "./ui/form";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { Switch } from "./ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import AvatarCropper from "./AvatarCropper";
+import { useDebounce } from "@/hooks/use-debounce";
+import { DEFAULT_EDITS, renderEditedImage, type ImageEdits } from "@/lib/image-editing";
+import { AVATAR_SIZE, getAvatarPath, removeAvatar, uploadAvatar } from "@/lib/avatars";
+import { Check, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+
+export interface EditableProfile {
+  id: string;
+  username: string;
+  full_name: string | null;
+  bio: string | null;
+  avatar_url: string | null;
+  website: string | null;
+  is_private: boolean;
+}
+
+interface EditProfileDialogProps {
+  profile: EditableProfile;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (profile: EditableProfile) => void;
+}
+
+// Letters, numbers, underscores and inner periods, so new usernames can
+// always be @mentioned
+const USERNAME_PATTERN = /^\w(?:[\w.]*\w)?$/;
+
+const MAX_AVATAR_SIZE_MB = 10;
+
+const isHttpUrl = (value: string) => {
+  try {
+    const url = new URL(value);
+    return (url.protocol === "http:" || url.protocol === "https:") && url.hostname.includes(".");
+  } catch {
+    return false;
+  }
+};
+
+// Existing usernames from before the character rule stay valid until changed
+const createProfileSchema = (currentUsername: string) =>
+  z.object({
+    username: z
+      .string()
+      .trim()
+      .min(3, "Username must be at least 3 characters")
+      .max(30, "Username must be at most 30 characters")
+      .refine(
+        (value) => value === currentUsername || USERNAME_PATTERN.test(value),
+        "Use only letters, numbers, underscores and periods"
+      ),
+    full_name: z.string().trim().max(100, "Name must be at most 100 characters"),
+    bio: z.string().trim().max(150, "Bio must be at most 150 characters"),
+    website: z
+      .string()
+      .trim()
+      .transform((value) =>
+        value && !/^[a-z][a-z\d+.-]*:/i.test(value) ? `https://${value}` : value
+      )
+      .refine((value) => !value || isHttpUrl(value), "Enter a valid URL, e.g. https://example.com"),
+    is_private: z.boolean(),
+  });
+
+type ProfileFormValues = z.infer<ReturnType<typeof createProfileSchema>>;
+
+type UsernameStatus = "checking" | "available" | "taken" | null;
+
+const EditProfileDialog = ({ profile, open, onOpenChange, onSaved }: EditProfileDialogProps) => {
+  const schema = useMemo(() => createProfileSchema(profile.username), [profile.username]);
+  const form = useForm<ProfileFormValues>({
+    resolver: zodResolver(schema),
+    mode: "onChange",
+    defaultValues: {
+      username: profile.username,
+      full_name: profile.full_name ?? "",
+      bio: profile.bio ?? "",
+      website: profile.website ?? "",
+      is_private: profile.is_private,
+    },
+  });
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cropSource, setCropSource] = useState<string | null>(null);
+  const [cropEdits, setCropEdits] = useState<ImageEdits>(DEFAULT_EDITS);
+  const [avatarBlob, setAvatarBlob] = useState<Blob | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(profile.avatar_url);
+  const [saving, setSaving] = useState(false);
+  const [usernameStatus, setUsernameStatus] = useState<UsernameStatus>(null);
+
+  const username = form.watch("username").trim();
+  const debouncedUsername = useDebounce(username, 400);
+  // Treat edits still waiting on the debounce as being checked
+  const displayedStatus: UsernameStatus =
+    username === debouncedUsername
+      ? usernameStatus
+      : username === profile.username
+        ? null
+        : "checking";
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset({
+      username: profile.username,
+      full_name: profile.full_name ?? "",
+      bio: profile.bio ?? "",
+      website: profile.website ?? "",
+      is_private: profile.is_private,
+    });
+    setCropSource(null);
+    setAvatarBlob(null);
+    setAvatarPreview(profile.avatar_url);
+    setUsernameStatus(null);
+  }, [open, profile, form]);
+
+  // Object URLs for the crop source and cropped preview are ours to free
+  useEffect(
+    () => () => {
+      if (cropSource) URL.revokeObjectURL(cropSource);
+    },
+    [cropSource]
+  );
+
+  useEffect(
+    () => () => {
+      if (avatarPreview?.startsWith("blob:")) URL.revokeObjectURL(avatarPreview);
+    },
+    [avatarPreview]
+  );
+
+  // Live availability check once the username is otherwise valid
+  useEffect(() => {
+    if (
+      debouncedUsername === profile.username ||
+      form.getFieldState("username").invalid ||
+      debouncedUsername.length < 3
+    ) {
+      setUsernameStatus(null);
+      return;
+    }
+
+    let cancelled = false;
+    setUsernameStatus("checking");
+
+    supabase
+      .from("profiles")
+      .select("id")
+      .eq("username", debouncedUsername)
+      .neq("id", profile.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          setUsernameStatus(null);
+          return;
+        }
+        setUsernameStatus(data ? "taken" : "available");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedUsername, profile.id, profile.username, form]);
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast.error("Please choose an image");
+      return;
+    }
+    if (file.size > MAX_AVATAR_SIZE_MB * 1024 * 1024) {
+      toast.error(`Images must be smaller than ${MAX_AVATAR_SIZE_MB}MB`);
+      return;
+    }
+
+    setCropEdits(DEFAULT_EDITS);
+    setCropSource(URL.createObjectURL(file));
+  };
+
+  const handleApplyCrop = async () => {
+    if (!cropSource) return;
+
+    try {
+      const blob = await renderEditedImage(cropSource, cropEdits, 1, AVATAR_SIZE);
+      setAvatarBlob(blob);
+      setAvatarPreview(URL.createObjectURL(blob));
+      setCropSource(null);
+    } catch (error) {
+      console.error("Error cropping avatar:", error);
+      toast.error("Failed to crop image");
+    }
+  };
+
+  const handleRemoveAvatar = () => {
+    setAvatarBlob(null);
+    setAvatarPreview(null);
+  };
+
+  // Values arrive trimmed and with the website normalised by the schema
+  const onSubmit = async (values: ProfileFormValues) => {
+    if (usernameStatus === "taken") {
+      form.setError("username", { message: "This username is taken" });
+      return;
+    }
+
+    setSaving(true);
+    let uploadedPath: string | null = null;
+
+    try {
+      let avatarUrl = avatarPreview ? profile.avatar_url : null;
+      if (avatarBlob) {
+        const uploaded = await uploadAvatar(profile.id, avatarBlob);
+        uploadedPath = uploaded.path;
+        avatarUrl = uploaded.url;
+      }
+
+      const updated = {
+        username: values.username,
+        full_name: values.full_name || null,
+        bio: values.bio || null,
+        website: values.website || null,
+        avatar_url: avatarUrl,
+        is_private: values.is_private,
+      };
+
+      const { error } = await supabase.from("profiles").update(updated).eq("id", profile.id);
+
+      if (error) {
+        // Someone claimed the username after the availability check
+        if (error.code === "23505") {
+          form.setError("username", { message: "This username is taken" });
+          setUsernameStatus("taken");
+          if (uploadedPath) await removeAvatar(uploadedPath).catch(() => {});
+          return;
+        }
+        throw error;
+      }
+
+      // The old file is unreferenced once the profile points elsewhere
+      const previousPath = getAvatarPath(profile.avatar_url);
+      if (previousPath && avatarUrl !== profile.avatar_url) {
+        await removeAvatar(previousPath).catch((error) => {
+          console.error("Error removing previous avatar:", error);
+        });
+      }
+
+      toast.success("Profile updated");
+      onSaved({ ...profile, ...updated });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      toast.error("Failed to update profile");
+      if (uploadedPath) await removeAvatar(uploadedPath).catch(() => {});
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{cropSource ? "Crop photo" : "Edit profile"}</DialogTitle>
+        </DialogHeader>
+
+        {cropSource ? (
+          <div className="space-y-4">
+            <AvatarCropper src={cropSource} edits={cropEdits} onChange={setCropEdits} />
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCropSource(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleApplyCrop}>Apply</Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="flex items-center gap-4">
+                <Avatar className="h-20 w-20">
+                  <AvatarImage src={avatarPreview || undefined} />
+                  <AvatarFallback className="text-2xl bg-gradient-to-br from-accent to-primary text-white">
+                    {profile.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex flex-col items-start gap-1">
+                  <Button
+                    type="button"
+                    variant="link"
+                    className="h-auto p-0"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    Change photo
+                  </Button>
+                  {avatarPreview && (
+                    <Button
+                      type="button"
+                      variant="link"
+                      className="h-auto p-0 text-destructive"
+                      onClick={handleRemoveAvatar}
+                    >
+                      Remove photo
+                    </Button>
+                  )}
+                </div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*"
+                  onChange={handleFileSelect}
+                  className="hidden"
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="off" {...field} />
+                    </FormControl>
+                    {displayedStatus && !form.formState.errors.username && (
+                      <FormDescription className="flex items-center gap-1">
+                        {displayedStatus === "checking" && (
+                          <>
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                            Checking availability…
+                          </>
+                        )}
+                        {displayedStatus === "available" && (
+                          <>
+                            <Check className="h-3 w-3 text-green-600" />
+                            {username} is available
+                          </>
+                        )}
+                        {displayedStatus === "taken" && (
+                          <>
+                            <X className="h-3 w-3 text-destructive" />
+                            {username} is taken
+                          </>
+                        )}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="full_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="bio"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bio</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} {...field} />
+                    </FormControl>
+                    <p className="text-xs text-muted-foreground text-right">
+                      {field.value.length}/150
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="website"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Website</FormLabel>
+                    <FormControl>
+                      <Input type="text" inputMode="url" placeholder="https://" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="is_private"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel>Private account</FormLabel>
+                      <FormDescription>
+                        Only people you approve can see your posts and stories.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <Link
+                to="/settings/blocked"
+                onClick={() => onOpenChange(false)}
+                className="block text-sm text-primary hover:underline"
+              >
+                Blocked accounts
+              </Link>
+
+              <DialogFooter>
+                <Button
+                  type="submit"
+                  disabled={
+                    saving || displayedStatus === "checking" || displayedStatus === "taken"
+                  }
+                >
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditProfileDialog;
@@ -0,0 +1,296 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useDebounce } from "@/hooks/use-debounce";
+import { followUser, unfollowUser, type FollowStatus } from "@/lib/follows";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+export type FollowList = "followers" | "following";
+
+interface FollowListEntry {
+  follow_id: string;
+  followed_at: string;
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+  is_private: boolean;
+  is_followed_by_viewer: boolean;
+  is_requested_by_viewer: boolean;
+}
+
+interface FollowListDialogProps {
+  userId: string;
+  list: FollowList;
+  currentUserId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called when the viewer follows (+1) or unfollows (-1) someone in the list
+  onFollowingChange?: (delta: number) => void;
+  // Called when the owner removes one of their followers
+  onFollowerRemoved?: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const getFollowStatus = (entry: FollowListEntry): FollowStatus =>
+  entry.is_followed_by_viewer ? "following" : entry.is_requested_by_viewer ? "requested" : "none";
+
+const FollowListDialog = ({
+  userId,
+  list,
+  currentUserId,
+  open,
+  onOpenChange,
+  onFollowingChange,
+  onFollowerRemoved,
+}: FollowListDialogProps) => {
+  const [entries, setEntries] = useState<FollowListEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [query, setQuery] = useState("");
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const debouncedQuery = useDebounce(query.trim(), 300);
+
+  const canRemoveFollowers = list === "followers" && currentUserId === userId;
+
+  const fetchPage = useCallback(
+    async (cursor?: FollowListEntry) => {
+      const { data, error } = await supabase.rpc("get_follow_list", {
+        _user_id: userId,
+        _list: list,
+        _search: debouncedQuery || undefined,
+        _cursor_created_at: cursor?.followed_at,
+        _cursor_id: cursor?.follow_id,
+        _limit: PAGE_SIZE,
+      });
+
+      if (error) throw error;
+      return data || [];
+    },
+    [userId, list, debouncedQuery]
+  );
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    fetchPage()
+      .then((page) => {
+        if (cancelled) return;
+        setEntries(page);
+        setHasMore(page.length === PAGE_SIZE);
+      })
+      .catch((error) => {
+        console.error(`Error fetching ${list}:`, error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, fetchPage, list]);
+
+  // Start fresh each time the dialog opens
+  useEffect(() => {
+    if (!open) {
+      setQuery("");
+      setEntries([]);
+      setLoading(true);
+    }
+  }, [open]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || entries.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(entries[entries.length - 1]);
+      setEntries((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error(`Error fetching more ${list}:`, error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, entries, hasMore, list, loading, loadingMore]);
+
+  // Load the next page when the end of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed[0].isIntersecting) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage]);
+
+  const setPending = (id: string, pending: boolean) =>
+    setPendingIds((prev) => {
+      const next = new Set(prev);
+      if (pending) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const handleToggleFollow = async (entry: FollowListEntry) => {
+    if (!currentUserId) {
+      toast.error("Log in to follow people");
+      return;
+    }
+
+    const previous = getFollowStatus(entry);
+    setPending(entry.id, true);
+    try {
+      const status =
+        previous === "none"
+          ? await followUser(currentUserId, entry)
+          : await unfollowUser(currentUserId, entry.id, previous);
+
+      setEntries((prev) =>
+        prev.map((e) =>
+          e.id === entry.id
+            ? {
+                ...e,
+                is_followed_by_viewer: status === "following",
+                is_requested_by_viewer: status === "requested",
+              }
+            : e
+        )
+      );
+      if (status === "following") onFollowingChange?.(1);
+      if (previous === "following") onFollowingChange?.(-1);
+    } catch (error) {
+      toast.error("Failed to update follow");
+    } finally {
+      setPending(entry.id, false);
+    }
+  };
+
+  const handleRemoveFollower = async (entry: FollowListEntry) => {
+    setPending(entry.id, true);
+    try {
+      const { error } = await supabase.from("follows").delete().eq("id", entry.follow_id);
+
+      if (error) throw error;
+      setEntries((prev) => prev.filter((e) => e.follow_id !== entry.follow_id));
+      onFollowerRemoved?.();
+    } catch (error) {
+      toast.error("Failed to remove follower");
+    } finally {
+      setPending(entry.id, false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{list === "followers" ? "Followers" : "Following"}</DialogTitle>
+        </DialogHeader>
+
+        <Input
+          placeholder="Search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+
+        <div className="h-80 overflow-y-auto">
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              {debouncedQuery
+                ? "No accounts found"
+                : list === "followers"
+                  ? "No followers yet"
+                  : "Not following anyone yet"}
+            </p>
+          ) : (
+            <>
+              {entries.map((entry) => (
+                <div key={entry.follow_id} className="flex items-center gap-3 p-2">
+                  <Link
+                    to={`/u/${entry.username}`}
+                    onClick={() => onOpenChange(false)}
+                    className="flex min-w-0 flex-1 items-center gap-3"
+                  >
+                    <Avatar className="h-10 w-10">
+                      <AvatarImage src={entry.avatar_url || undefined} />
+                      <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                        {entry.username[0].toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-semibold">{entry.username}</p>
+                      {entry.full_name && (
+                        <p className="truncate text-sm text-muted-foreground">
+                          {entry.full_name}
+                        </p>
+                      )}
+                    </div>
+                  </Link>
+
+                  {entry.id !== currentUserId && (
+                    <Button
+                      variant={getFollowStatus(entry) === "none" ? "default" : "outline"}
+                      size="sm"
+                      disabled={pendingIds.has(entry.id)}
+                      onClick={() => handleToggleFollow(entry)}
+                    >
+                      {entry.is_followed_by_viewer
+                        ? "Following"
+                        : entry.is_requested_by_viewer
+                          ? "Requested"
+                          : "Follow"}
+                    </Button>
+                  )}
+                  {canRemoveFollowers && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pendingIds.has(entry.id)}
+                      onClick={() => handleRemoveFollower(entry)}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ))}
+
+              <div ref={sentinelRef} />
+              {loadingMore && (
+                <div className="flex justify-center py-2">
+                  <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FollowListDialog;
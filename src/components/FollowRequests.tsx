@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card } from "./ui/card";
+import { Button } from "./ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+
+interface FollowRequest {
+  id: string;
+  created_at: string;
+  requester: {
+    username: string;
+    full_name: string | null;
+    avatar_url: string | null;
+  } | null;
+}
+
+// Pending requests to follow the current user's private account
+const FollowRequests = () => {
+  const [requests, setRequests] = useState<FollowRequest[]>([]);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchRequests();
+  }, []);
+
+  const fetchRequests = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("follow_requests")
+        .select(
+          `
+          id,
+          created_at,
+          requester:profiles!follow_requests_requester_id_fkey (username, full_name, avatar_url)
+        `
+        )
+        .eq("target_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setRequests(data || []);
+    } catch (error) {
+      console.error("Error fetching follow requests:", error);
+    }
+  };
+
+  const handleRespond = async (request: FollowRequest, accept: boolean) => {
+    setPendingIds((prev) => new Set(prev).add(request.id));
+    try {
+      const { error } = accept
+        ? await supabase.rpc("accept_follow_request", { _request_id: request.id })
+        : await supabase.from("follow_requests").delete().eq("id", request.id);
+
+      if (error) throw error;
+      setRequests((prev) => prev.filter((r) => r.id !== request.id));
+    } catch (error) {
+      toast.error(accept ? "Failed to accept request" : "Failed to delete request");
+    } finally {
+      setPendingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(request.id);
+        return next;
+      });
+    }
+  };
+
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2">
+      <h2 className="text-sm font-semibold text-muted-foreground">
+        Follow requests ({requests.length})
+      </h2>
+      {requests.map((request) => {
+        const username = request.requester?.username ?? "Someone";
+
+        return (
+          <Card key={request.id} className="p-4">
+            <div className="flex items-center gap-4">
+              <Link
+                to={`/u/${username}`}
+                className="flex min-w-0 flex-1 items-center gap-4"
+              >
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={request.requester?.avatar_url || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                    {username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="truncate text-sm font-semibold">{username}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {request.requester?.full_name ||
+                      formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </Link>
+
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={pendingIds.has(request.id)}
+                  onClick={() => handleRespond(request, true)}
+                >
+                  Confirm
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={pendingIds.has(request.id)}
+                  onClick={() => handleRespond(request, false)}
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default FollowRequests;
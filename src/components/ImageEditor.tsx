@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import { Slider } from "./ui/slider";
+import { Label } from "./ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs";
+import { cn } from "@/lib/utils";
+import {
+  FILTERS,
+  drawEditedImage,
+  getFilterCss,
+  getImagePlacement,
+  loadImage,
+  type ImageEdits,
+} from "@/lib/image-editing";
+
+interface ImageEditorProps {
+  src: string;
+  aspectRatio: number;
+  edits: ImageEdits;
+  onChange: (edits: ImageEdits) => void;
+}
+
+const PREVIEW_WIDTH = 600;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+const ImageEditor = ({ src, aspectRatio, edits, onChange }: ImageEditorProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  const previewHeight = Math.round(PREVIEW_WIDTH / aspectRatio);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(src).then((loaded) => {
+      if (!cancelled) setImage(loaded);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !image) return;
+    drawEditedImage(ctx, image, edits, PREVIEW_WIDTH, previewHeight);
+  }, [image, edits, previewHeight]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragRef.current || !image) return;
+
+    // Convert on-screen movement into canvas pixels, then into pan offsets
+    const rect = e.currentTarget.getBoundingClientRect();
+    const ratio = PREVIEW_WIDTH / rect.width;
+    const dx = (e.clientX - dragRef.current.x) * ratio;
+    const dy = (e.clientY - dragRef.current.y) * ratio;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+
+    const { maxPanX, maxPanY } = getImagePlacement(image, edits, PREVIEW_WIDTH, previewHeight);
+    onChange({
+      ...edits,
+      offsetX: maxPanX > 0 ? clamp(edits.offsetX + dx / maxPanX, -1, 1) : 0,
+      offsetY: maxPanY > 0 ? clamp(edits.offsetY + dy / maxPanY, -1, 1) : 0,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return (
+    <div className="space-y-4">
+      <canvas
+        ref={canvasRef}
+        width={PREVIEW_WIDTH}
+        height={previewHeight}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="w-full rounded-lg bg-muted cursor-move touch-none"
+        style={{ aspectRatio }}
+      />
+
+      <Tabs defaultValue="filters">
+        <TabsList className="w-full grid grid-cols-2">
+          <TabsTrigger value="filters">Filters</TabsTrigger>
+          <TabsTrigger value="adjust">Adjust</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="filters">
+          <div className="flex gap-3 overflow-x-auto pb-1">
+            {FILTERS.map((filter) => (
+              <button
+                key={filter.name}
+                type="button"
+                onClick={() => onChange({ ...edits, filter: filter.name })}
+                className="shrink-0 space-y-1 text-center"
+              >
+                <div
+                  className={cn(
+                    "h-16 w-16 rounded-md overflow-hidden border-2",
+                    edits.filter === filter.name ? "border-primary" : "border-transparent"
+                  )}
+                >
+                  <img
+                    src={src}
+                    alt={filter.name}
+                    className="w-full h-full object-cover"
+                    style={{
+                      filter: getFilterCss({
+                        ...edits,
+                        filter: filter.name,
+                      }),
+                    }}
+                  />
+                </div>
+                <p
+                  className={cn(
+                    "text-xs",
+                    edits.filter === filter.name ? "font-semibold" : "text-muted-foreground"
+                  )}
+                >
+                  {filter.name}
+                </p>
+              </button>
+            ))}
+          </div>
+        </TabsContent>
+
+        <TabsContent value="adjust" className="space-y-5">
+          <div className="space-y-2">
+            <Label>Zoom</Label>
+            <Slider
+              min={1}
+              max={3}
+              step={0.01}
+              value={[edits.zoom]}
+              onValueChange={([zoom]) => onChange({ ...edits, zoom })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Brightness</Label>
+            <Slider
+              min={50}
+              max={150}
+              step={1}
+              value={[edits.brightness]}
+              onValueChange={([brightness]) => onChange({ ...edits, brightness })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Contrast</Label>
+            <Slider
+              min={50}
+              max={150}
+              step={1}
+              value={[edits.contrast]}
+              onValueChange={([contrast]) => onChange({ ...edits, contrast })}
+            />
+          </div>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default ImageEditor;
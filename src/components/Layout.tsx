@@ -3,18 +3,36 @@ import { useNavigate, Link, useLocation } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { User } from "@supabase/supabase-js";
 import { Button } from "./ui/button";
-import { Home, Search, PlusSquare, Heart, User as UserIcon, LogOut, Camera } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Home, Search, Clapperboard, PlusSquare, Heart, Send, User as UserIcon, LogOut, LogIn, Camera } from "lucide-react";
 import { toast } from "sonner";
+import { useNotifications } from "@/hooks/use-notifications";
+import { unsubscribeFromPush } from "@/lib/push";
 
 interface LayoutProps {
   children: ReactNode;
+  requireAuth?: boolean;
 }
 
-const Layout = ({ children }: LayoutProps) => {
+const UnreadBadge = ({ count, className }: { count: number; className?: string }) =>
+  count > 0 ? (
+    <span
+      className={cn(
+        "ml-1.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-semibold leading-none text-white",
+        className
+      )}
+    >
+      {count > 99 ? "99+" : count}
+      <span className="sr-only"> unread notifications</span>
+    </span>
+  ) : null;
+
+const Layout = ({ children, requireAuth = true }: LayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const { unreadCount } = useNotifications();
 
   useEffect(() => {
     // Check current session
@@ -22,8 +40,8 @@ const Layout = ({ children }: LayoutProps) => {
       setUser(session?.user ?? null);
       setLoading(false);
       
-      if (!session && location.pathname !== "/auth") {
-        navigate("/auth");
+      if (!session && requireAuth && location.pathname !== "/auth") {
+        navigate("/auth", { state: { from: location.pathname } });
       }
     });
 
@@ -33,15 +51,20 @@ const Layout = ({ children }: LayoutProps) => {
     } = supabase.auth.onAuthStateChange((_event, session) => {
       setUser(session?.user ?? null);
       
-      if (!session && location.pathname !== "/auth") {
-        navigate("/auth");
+      if (!session && requireAuth && location.pathname !== "/auth") {
+        navigate("/auth", { state: { from: location.pathname } });
       }
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate, location.pathname]);
+  }, [navigate, location.pathname, requireAuth]);
 
   const handleLogout = async () => {
+    // Stop this device receiving the account's pushes once signed out
+    await unsubscribeFromPush().catch((error) => {
+      console.error("Error removing push subscription:", error);
+    });
+
     const { error } = await supabase.auth.signOut();
     if (error) {
       toast.error("Failed to log out");
@@ -59,7 +82,7 @@ const Layout = ({ children }: LayoutProps) => {
     );
   }
 
-  if (!user) {
+  if (!user && requireAuth) {
     return null;
   }
 
@@ -79,129 +102,182 @@ const Layout = ({ children }: LayoutProps) => {
             </span>
           </Link>
 
-          <nav className="hidden md:flex items-center gap-1">
+          {user ? (
+            <>
+              <nav className="hidden md:flex items-center gap-1">
+                <Button
+                  variant={isActive("/") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/">
+                    <Home className="w-4 h-4 mr-2" />
+                    Home
+                  </Link>
+                </Button>
+                <Button
+                  variant={isActive("/explore") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/explore">
+                    <Search className="w-4 h-4 mr-2" />
+                    Explore
+                  </Link>
+                </Button>
+                <Button
+                  variant={isActive("/reels") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/reels">
+                    <Clapperboard className="w-4 h-4 mr-2" />
+                    Reels
+                  </Link>
+                </Button>
+                <Button
+                  variant={isActive("/create") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/create">
+                    <PlusSquare className="w-4 h-4 mr-2" />
+                    Create
+                  </Link>
+                </Button>
+                <Button
+                  variant={isActive("/notifications") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/notifications">
+                    <Heart className="w-4 h-4 mr-2" />
+                    Notifications
+                    <UnreadBadge count={unreadCount} />
+                  </Link>
+                </Button>
+                <Button
+                  variant={location.pathname.startsWith("/direct") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/direct">
+                    <Send className="w-4 h-4 mr-2" />
+                    Messages
+                  </Link>
+                </Button>
+                <Button
+                  variant={isActive("/profile") ? "secondary" : "ghost"}
+                  size="sm"
+                  asChild
+                >
+                  <Link to="/profile">
+                    <UserIcon className="w-4 h-4 mr-2" />
+                    Profile
+                  </Link>
+                </Button>
+              </nav>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleLogout}
+                className="hidden md:flex"
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Logout
+              </Button>
+
+              {/* Messages live in the header on mobile to keep the bottom bar short */}
+              <Button variant="ghost" size="icon" asChild className="md:hidden">
+                <Link to="/direct">
+                  <Send className="w-5 h-5" />
+                  <span className="sr-only">Messages</span>
+                </Link>
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" asChild>
+              <Link to="/auth" state={{ from: location.pathname }}>
+                <LogIn className="w-4 h-4 mr-2" />
+                Log in
+              </Link>
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="container py-6">{children}</main>
+
+      {/* Mobile Bottom Navigation */}
+      {user && (
+        <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50">
+          <div className="flex items-center justify-around h-16 px-4">
             <Button
               variant={isActive("/") ? "secondary" : "ghost"}
               size="sm"
               asChild
+              className="flex-1"
             >
               <Link to="/">
-                <Home className="w-4 h-4 mr-2" />
-                Home
+                <Home className="w-5 h-5" />
               </Link>
             </Button>
             <Button
               variant={isActive("/explore") ? "secondary" : "ghost"}
               size="sm"
               asChild
+              className="flex-1"
             >
               <Link to="/explore">
-                <Search className="w-4 h-4 mr-2" />
-                Explore
+                <Search className="w-5 h-5" />
+              </Link>
+            </Button>
+            <Button
+              variant={isActive("/reels") ? "secondary" : "ghost"}
+              size="sm"
+              asChild
+              className="flex-1"
+            >
+              <Link to="/reels">
+                <Clapperboard className="w-5 h-5" />
               </Link>
             </Button>
             <Button
               variant={isActive("/create") ? "secondary" : "ghost"}
               size="sm"
               asChild
+              className="flex-1"
             >
               <Link to="/create">
-                <PlusSquare className="w-4 h-4 mr-2" />
-                Create
+                <PlusSquare className="w-5 h-5" />
               </Link>
             </Button>
             <Button
               variant={isActive("/notifications") ? "secondary" : "ghost"}
               size="sm"
               asChild
+              className="flex-1"
             >
-              <Link to="/notifications">
-                <Heart className="w-4 h-4 mr-2" />
-                Notifications
+              <Link to="/notifications" className="relative">
+                <Heart className="w-5 h-5" />
+                <UnreadBadge count={unreadCount} className="absolute top-1 right-1/4" />
               </Link>
             </Button>
             <Button
               variant={isActive("/profile") ? "secondary" : "ghost"}
               size="sm"
               asChild
+              className="flex-1"
             >
               <Link to="/profile">
-                <UserIcon className="w-4 h-4 mr-2" />
-                Profile
+                <UserIcon className="w-5 h-5" />
               </Link>
             </Button>
-          </nav>
-
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleLogout}
-            className="hidden md:flex"
-          >
-            <LogOut className="w-4 h-4 mr-2" />
-            Logout
-          </Button>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="container py-6">{children}</main>
-
-      {/* Mobile Bottom Navigation */}
-      <nav className="md:hidden fixed bottom-0 left-0 right-0 bg-card border-t border-border z-50">
-        <div className="flex items-center justify-around h-16 px-4">
-          <Button
-            variant={isActive("/") ? "secondary" : "ghost"}
-            size="sm"
-            asChild
-            className="flex-1"
-          >
-            <Link to="/">
-              <Home className="w-5 h-5" />
-            </Link>
-          </Button>
-          <Button
-            variant={isActive("/explore") ? "secondary" : "ghost"}
-            size="sm"
-            asChild
-            className="flex-1"
-          >
-            <Link to="/explore">
-              <Search className="w-5 h-5" />
-            </Link>
-          </Button>
-          <Button
-            variant={isActive("/create") ? "secondary" : "ghost"}
-            size="sm"
-            asChild
-            className="flex-1"
-          >
-            <Link to="/create">
-              <PlusSquare className="w-5 h-5" />
-            </Link>
-          </Button>
-          <Button
-            variant={isActive("/notifications") ? "secondary" : "ghost"}
-            size="sm"
-            asChild
-            className="flex-1"
-          >
-            <Link to="/notifications">
-              <Heart className="w-5 h-5" />
-            </Link>
-          </Button>
-          <Button
-            variant={isActive("/profile") ? "secondary" : "ghost"}
-            size="sm"
-            asChild
-            className="flex-1"
-          >
-            <Link to="/profile">
-              <UserIcon className="w-5 h-5" />
-            </Link>
-          </Button>
-        </div>
-      </nav>
+          </div>
+        </nav>
+      )}
     </div>
   );
 };
@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Textarea, type TextareaProps } from "./ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { cn } from "@/lib/utils";
+
+interface Suggestion {
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+interface MentionTextareaProps extends Omit<TextareaProps, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+  suggestionsPlacement?: "top" | "bottom";
+}
+
+// The partial "@user" immediately before the caret, if any
+const ACTIVE_MENTION = /(?:^|\s)@([\w.]{0,30})$/;
+
+const MentionTextarea = ({
+  value,
+  onChange,
+  onKeyDown,
+  className,
+  suggestionsPlacement = "bottom",
+  ...props
+}: MentionTextareaProps) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const debouncedQuery = useDebounce(query, 150);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    supabase
+      .from("profiles")
+      .select("id, username, full_name, avatar_url")
+      .ilike("username", `${debouncedQuery.replace(/[%_\\]/g, "\\$&")}%`)
+      .limit(5)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setSuggestions(data || []);
+        setActiveIndex(0);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = ACTIVE_MENTION.exec(text.slice(0, caret));
+    setQuery(match ? match[1] : null);
+  };
+
+  const closeSuggestions = () => {
+    setQuery(null);
+    setSuggestions([]);
+  };
+
+  const insertMention = (username: string) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? value.length;
+    const before = value
+      .slice(0, caret)
+      .replace(/@[\w.]*$/, `@${username} `);
+    const next = before + value.slice(caret);
+
+    onChange(next);
+    closeSuggestions();
+
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0 && query !== null) {
+      if (e.key === "ArrowDown") {
+        e.preventDefault();
+        setActiveIndex((activeIndex + 1) % suggestions.length);
+        return;
+      }
+      if (e.key === "ArrowUp") {
+        e.preventDefault();
+        setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        insertMention(suggestions[activeIndex].username);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        closeSuggestions();
+        return;
+      }
+    }
+    onKeyDown?.(e);
+  };
+
+  return (
+    <div className="relative w-full">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={closeSuggestions}
+        className={className}
+        {...props}
+      />
+
+      {query !== null && suggestions.length > 0 && (
+        <ul
+          className={cn(
+            "absolute left-0 right-0 z-50 rounded-md border border-border bg-popover p-1 shadow-md",
+            suggestionsPlacement === "top" ? "bottom-full mb-1" : "top-full mt-1"
+          )}
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.id}
+              className={cn(
+                "flex cursor-pointer items-center gap-2 rounded-sm px-2 py-1.5 text-sm",
+                index === activeIndex && "bg-accent text-accent-foreground"
+              )}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => insertMention(suggestion.username)}
+            >
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={suggestion.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white text-xs">
+                  {suggestion.username[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="font-semibold">{suggestion.username}</span>
+              {suggestion.full_name && (
+                <span className="text-muted-foreground truncate">
+                  {suggestion.full_name}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default MentionTextarea;
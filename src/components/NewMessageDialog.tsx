@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import RecipientSearch from "./RecipientSearch";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { createConversation, type Participant } from "@/lib/messages";
+
+interface NewMessageDialogProps {
+  currentUserId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NewMessageDialog = ({ currentUserId, open, onOpenChange }: NewMessageDialogProps) => {
+  const navigate = useNavigate();
+  const [selected, setSelected] = useState<Participant[]>([]);
+  const [title, setTitle] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSelected([]);
+      setTitle("");
+    }
+  }, [open]);
+
+  const toggleParticipant = (participant: Participant) => {
+    setSelected((prev) =>
+      prev.some((p) => p.id === participant.id)
+        ? prev.filter((p) => p.id !== participant.id)
+        : [...prev, participant]
+    );
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const conversationId = await createConversation(
+        selected.map((participant) => participant.id),
+        selected.length > 1 ? title : undefined
+      );
+      onOpenChange(false);
+      navigate(`/direct/${conversationId}`);
+    } catch (error) {
+      console.error("Error creating conversation:", error);
+      toast.error("Failed to start conversation");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New message</DialogTitle>
+        </DialogHeader>
+
+        {selected.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {selected.map((participant) => (
+              <Badge key={participant.id} variant="secondary" className="gap-1">
+                {participant.username}
+                <button type="button" onClick={() => toggleParticipant(participant)}>
+                  <X className="h-3 w-3" />
+                  <span className="sr-only">Remove {participant.username}</span>
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {selected.length > 1 && (
+          <Input
+            placeholder="Group name (optional)"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={100}
+          />
+        )}
+
+        <RecipientSearch
+          currentUserId={currentUserId}
+          selected={selected}
+          onToggle={toggleParticipant}
+        />
+
+        <DialogFooter>
+          <Button onClick={handleCreate} disabled={selected.length === 0 || creating}>
+            {creating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Chat
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewMessageDialog;
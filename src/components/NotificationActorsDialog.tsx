@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "./ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Loader2 } from "lucide-react";
+
+interface Actor {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface NotificationActorsDialogProps {
+  title: string;
+  notificationIds: string[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Everyone behind a grouped notification, most recent first
+const NotificationActorsDialog = ({
+  title,
+  notificationIds,
+  open,
+  onOpenChange,
+}: NotificationActorsDialogProps) => {
+  const [actors, setActors] = useState<Actor[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchActors = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from("notifications")
+          .select("actor_id")
+          .in("id", notificationIds)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+
+        // Most recent actor first, each listed once
+        const actorIds = [...new Set((data || []).map((row) => row.actor_id))];
+        const { data: profiles, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, username, avatar_url")
+          .in("id", actorIds);
+
+        if (profilesError) throw profilesError;
+
+        const profilesById = new Map((profiles || []).map((profile) => [profile.id, profile]));
+        setActors(
+          actorIds
+            .map((id) => profilesById.get(id))
+            .filter((profile): profile is Actor => !!profile)
+        );
+      } catch (error) {
+        console.error("Error fetching notification actors:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchActors();
+  }, [open, notificationIds]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            {actors.map((actor) => (
+              <Link
+                key={actor.id}
+                to={`/u/${actor.username}`}
+                className="flex items-center gap-3 rounded-md p-2 hover:bg-muted"
+              >
+                <Avatar className="h-9 w-9">
+                  <AvatarImage src={actor.avatar_url || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                    {actor.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-semibold">{actor.username}</span>
+              </Link>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NotificationActorsDialog;
@@ -0,0 +1,158 @@
+import * as React from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { getNotificationAction, markNotificationsAsRead } from "@/lib/notifications";
+import {
+  NotificationsContext,
+  type NotificationListener,
+  type NotificationRow,
+} from "@/hooks/use-notifications";
+
+const NotificationsProvider = ({ children }: { children: React.ReactNode }) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [userId, setUserId] = React.useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = React.useState(0);
+  const listenersRef = React.useRef(new Set<NotificationListener>());
+  const pathnameRef = React.useRef(location.pathname);
+  pathnameRef.current = location.pathname;
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refreshUnreadCount = React.useCallback(async () => {
+    if (!userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_read", false);
+
+    if (error) {
+      console.error("Error counting unread notifications:", error);
+      return;
+    }
+    setUnreadCount(count ?? 0);
+  }, [userId]);
+
+  React.useEffect(() => {
+    refreshUnreadCount();
+    if (!userId) return;
+
+    const showToast = async (notification: NotificationRow) => {
+      // The list on the notifications page already updates live, and
+      // notifications stored during quiet hours stay silent
+      if (pathnameRef.current === "/notifications" || notification.silent) return;
+
+      const { data: actor } = await supabase
+        .from("profiles")
+        .select("username")
+        .eq("id", notification.actor_id)
+        .maybeSingle();
+      if (!actor) return;
+
+      toast(`${actor.username} ${getNotificationAction(notification.type, notification.comment_id)}`, {
+        action: {
+          label: "View",
+          onClick: () =>
+            navigate(notification.post_id ? `/p/${notification.post_id}` : `/u/${actor.username}`),
+        },
+      });
+    };
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = payload.new as NotificationRow;
+          // Recount rather than increment, which also catches up on any
+          // notifications retracted since the last change
+          refreshUnreadCount();
+          listenersRef.current.forEach((listener) => listener(notification));
+          showToast(notification);
+        }
+      )
+      // Reads from other tabs and devices. Realtime can't filter DELETE
+      // events, so retractions are only picked up by the next recount.
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        () => refreshUnreadCount()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, refreshUnreadCount, navigate]);
+
+  const markAsRead = React.useCallback(
+    async (ids: string[]) => {
+      try {
+        await markNotificationsAsRead(ids);
+      } catch (error) {
+        console.error("Error marking notifications as read:", error);
+      }
+      await refreshUnreadCount();
+    },
+    [refreshUnreadCount]
+  );
+
+  const markAllAsRead = React.useCallback(async () => {
+    if (!userId) return;
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ is_read: true })
+      .eq("user_id", userId)
+      .eq("is_read", false);
+    if (error) {
+      console.error("Error marking notifications as read:", error);
+    }
+    await refreshUnreadCount();
+  }, [userId, refreshUnreadCount]);
+
+  const subscribe = React.useCallback((listener: NotificationListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const value = React.useMemo(
+    () => ({ unreadCount, markAsRead, markAllAsRead, subscribe }),
+    [unreadCount, markAsRead, markAllAsRead, subscribe]
+  );
+
+  return <NotificationsContext.Provider value={value}>{children}</NotificationsContext.Provider>;
+};
+
+export default NotificationsProvider;
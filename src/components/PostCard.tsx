@@ -1,9 +1,35 @@
-import { useState, useEffect } from "react";
+import { useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Card } from "./ui/card";
 import { Button } from "./ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
-import { Heart, MessageCircle, Send, Bookmark, MoreHorizontal } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import CommentsSheet from "./CommentsSheet";
+import EditPostDialog from "./EditPostDialog";
+import SharePostDialog from "./SharePostDialog";
+import ReportDialog from "./ReportDialog";
+import CaptionText from "./CaptionText";
+import PostMedia, { type MediaItem } from "./PostMedia";
+import type { Json } from "@/integrations/supabase/types";
+import { usePostInteractions } from "@/hooks/use-post-interactions";
+import { Heart, MessageCircle, Send, Bookmark, MoreHorizontal, Link as LinkIcon, ExternalLink, Pencil, Trash2, Flag } from "lucide-react";
 import { toast } from "sonner";
 import { formatDistanceToNow } from "date-fns";
 
@@ -13,6 +39,10 @@ interface PostCardProps {
     user_id: string;
     media_url: string;
     media_type: string;
+    aspect_ratio?: number;
+    media_variants?: Json | null;
+    blurhash?: string | null;
+    poster_url?: string | null;
     caption: string | null;
     location: string | null;
     created_at: string;
@@ -23,115 +53,51 @@ interface PostCardProps {
     likes: { id: string }[];
     comments: { id: string }[];
     saves: { id: string }[];
+    post_media?: MediaItem[];
   };
   onUpdate: () => void;
 }
 
 const PostCard = ({ post, onUpdate }: PostCardProps) => {
-  const [isLiked, setIsLiked] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
-  const [likesCount, setLikesCount] = useState(post.likes.length);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
-
-  useEffect(() => {
-    checkUserInteractions();
-  }, [post.id]);
-
-  const checkUserInteractions = async () => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
-    
-    setCurrentUserId(user.id);
-
-    // Check if user liked the post
-    const { data: likeData } = await supabase
-      .from("likes")
-      .select("id")
-      .eq("post_id", post.id)
-      .eq("user_id", user.id)
-      .single();
-
-    setIsLiked(!!likeData);
-
-    // Check if user saved the post
-    const { data: saveData } = await supabase
-      .from("saves")
-      .select("id")
-      .eq("post_id", post.id)
-      .eq("user_id", user.id)
-      .single();
-
-    setIsSaved(!!saveData);
-  };
-
-  const handleLike = async () => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
+  const {
+    currentUserId,
+    isLiked,
+    isSaved,
+    likesCount,
+    toggleLike: handleLike,
+    toggleSave: handleSave,
+    copyLink: handleCopyLink,
+    share: handleShare,
+  } = usePostInteractions(post);
+  const [commentsCount, setCommentsCount] = useState(post.comments.length);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [deleteOpen, setDeleteOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
 
+  const handleDelete = async () => {
     try {
-      if (isLiked) {
-        await supabase
-          .from("likes")
-          .delete()
-          .eq("post_id", post.id)
-          .eq("user_id", user.id);
-        setLikesCount(likesCount - 1);
-      } else {
-        await supabase
-          .from("likes")
-          .insert({ post_id: post.id, user_id: user.id });
-        setLikesCount(likesCount + 1);
-        
-        // Create notification if liking someone else's post
-        if (post.user_id !== user.id) {
-          await supabase.from("notifications").insert({
-            user_id: post.user_id,
-            actor_id: user.id,
-            type: "like",
-            post_id: post.id,
-          });
-        }
-      }
-      setIsLiked(!isLiked);
-    } catch (error) {
-      toast.error("Failed to update like");
-    }
-  };
-
-  const handleSave = async () => {
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-    if (!user) return;
+      const { error } = await supabase.from("posts").delete().eq("id", post.id);
+      if (error) throw error;
 
-    try {
-      if (isSaved) {
-        await supabase
-          .from("saves")
-          .delete()
-          .eq("post_id", post.id)
-          .eq("user_id", user.id);
-      } else {
-        await supabase
-          .from("saves")
-          .insert({ post_id: post.id, user_id: user.id });
-        toast.success("Post saved");
-      }
-      setIsSaved(!isSaved);
+      toast.success("Post deleted");
+      onUpdate();
     } catch (error) {
-      toast.error("Failed to save post");
+      toast.error("Failed to delete post");
     }
   };
 
+  const isOwnPost = currentUserId === post.user_id;
+
   return (
     <Card className="overflow-hidden border-border">
       {/* Post Header */}
       <div className="flex items-center justify-between p-4">
-        <div className="flex items-center gap-3">
+        <Link
+          to={`/u/${post.profiles.username}`}
+          className="flex items-center gap-3"
+        >
           <Avatar className="h-10 w-10 border-2 border-gradient-to-br from-accent to-primary">
             <AvatarImage src={post.profiles.avatar_url || undefined} />
             <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
@@ -139,33 +105,73 @@ const PostCard = ({ post, onUpdate }: PostCardProps) => {
             </AvatarFallback>
           </Avatar>
           <div>
-            <p className="font-semibold text-sm">{post.profiles.username}</p>
+            <p className="font-semibold text-sm hover:underline">
+              {post.profiles.username}
+            </p>
             {post.location && (
               <p className="text-xs text-muted-foreground">{post.location}</p>
             )}
           </div>
-        </div>
-        <Button variant="ghost" size="icon">
-          <MoreHorizontal className="h-5 w-5" />
-        </Button>
+        </Link>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon">
+              <MoreHorizontal className="h-5 w-5" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem asChild>
+              <Link to={`/p/${post.id}`}>
+                <ExternalLink className="h-4 w-4 mr-2" />
+                Go to post
+              </Link>
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={handleCopyLink}>
+              <LinkIcon className="h-4 w-4 mr-2" />
+              Copy link
+            </DropdownMenuItem>
+            {isOwnPost && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={() => setEditOpen(true)}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Edit
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onClick={() => setDeleteOpen(true)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete
+                </DropdownMenuItem>
+              </>
+            )}
+            {!isOwnPost && currentUserId && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem
+                  onClick={() => setReportOpen(true)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Flag className="h-4 w-4 mr-2" />
+                  Report
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Post Media */}
-      <div className="aspect-square bg-muted">
-        {post.media_type === "image" ? (
-          <img
-            src={post.media_url}
-            alt="Post"
-            className="w-full h-full object-cover"
-          />
-        ) : (
-          <video
-            src={post.media_url}
-            controls
-            className="w-full h-full object-cover"
-          />
-        )}
-      </div>
+      <PostMedia
+        mediaUrl={post.media_url}
+        mediaType={post.media_type}
+        variants={post.media_variants}
+        blurhash={post.blurhash}
+        posterUrl={post.poster_url}
+        items={post.post_media}
+        aspectRatio={post.aspect_ratio}
+      />
 
       {/* Post Actions */}
       <div className="p-4 space-y-3">
@@ -182,10 +188,14 @@ const PostCard = ({ post, onUpdate }: PostCardProps) => {
                 fill={isLiked ? "currentColor" : "none"}
               />
             </Button>
-            <Button variant="ghost" size="icon">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setCommentsOpen(true)}
+            >
               <MessageCircle className="h-6 w-6" />
             </Button>
-            <Button variant="ghost" size="icon">
+            <Button variant="ghost" size="icon" onClick={() => setShareOpen(true)}>
               <Send className="h-6 w-6" />
             </Button>
           </div>
@@ -210,15 +220,23 @@ const PostCard = ({ post, onUpdate }: PostCardProps) => {
         {/* Caption */}
         {post.caption && (
           <p className="text-sm">
-            <span className="font-semibold mr-2">{post.profiles.username}</span>
-            {post.caption}
+            <Link
+              to={`/u/${post.profiles.username}`}
+              className="font-semibold mr-2 hover:underline"
+            >
+              {post.profiles.username}
+            </Link>
+            <CaptionText text={post.caption} />
           </p>
         )}
 
         {/* Comments Count */}
-        {post.comments.length > 0 && (
-          <button className="text-sm text-muted-foreground hover:text-foreground transition-colors">
-            View all {post.comments.length} comments
+        {commentsCount > 0 && (
+          <button
+            className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            onClick={() => setCommentsOpen(true)}
+          >
+            View all {commentsCount} comments
           </button>
         )}
 
@@ -227,6 +245,56 @@ const PostCard = ({ post, onUpdate }: PostCardProps) => {
           {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
         </p>
       </div>
+
+      <CommentsSheet
+        postId={post.id}
+        open={commentsOpen}
+        onOpenChange={setCommentsOpen}
+        onCountChange={setCommentsCount}
+      />
+
+      <SharePostDialog
+        postId={post.id}
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+        onCopyLink={handleCopyLink}
+        onShareExternally={handleShare}
+      />
+
+      {!isOwnPost && (
+        <ReportDialog
+          target={{ type: "post", id: post.id }}
+          currentUserId={currentUserId}
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+        />
+      )}
+
+      {isOwnPost && (
+        <>
+          <EditPostDialog
+            post={post}
+            open={editOpen}
+            onOpenChange={setEditOpen}
+            onSaved={onUpdate}
+          />
+          <AlertDialog open={deleteOpen} onOpenChange={setDeleteOpen}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete post?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  This permanently removes the post along with its likes and
+                  comments.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
     </Card>
   );
 };
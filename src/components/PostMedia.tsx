@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  type CarouselApi,
+} from "./ui/carousel";
+import ResponsiveImage from "./ResponsiveImage";
+import type { Json } from "@/integrations/supabase/types";
+import { cn } from "@/lib/utils";
+
+export interface MediaItem {
+  id: string;
+  position: number;
+  media_url: string;
+  media_type: string;
+  variants?: Json | null;
+  blurhash?: string | null;
+  poster_url?: string | null;
+}
+
+interface PostMediaProps {
+  mediaUrl: string;
+  mediaType: string;
+  variants?: Json | null;
+  blurhash?: string | null;
+  posterUrl?: string | null;
+  items?: MediaItem[];
+  aspectRatio?: number;
+}
+
+interface MediaElementProps {
+  url: string;
+  type: string;
+  variants?: Json | null;
+  blurhash?: string | null;
+  posterUrl?: string | null;
+}
+
+// Posts are at most 672px wide in the feed
+const FEED_IMAGE_SIZES = "(min-width: 768px) 672px, 100vw";
+
+const MediaElement = ({ url, type, variants, blurhash, posterUrl }: MediaElementProps) =>
+  type === "image" ? (
+    <ResponsiveImage
+      src={url}
+      variants={variants}
+      blurhash={blurhash}
+      sizes={FEED_IMAGE_SIZES}
+    />
+  ) : (
+    <video
+      src={url}
+      poster={posterUrl ?? undefined}
+      controls
+      preload="metadata"
+      className="w-full h-full object-cover"
+    />
+  );
+
+const PostMedia = ({
+  mediaUrl,
+  mediaType,
+  variants,
+  blurhash,
+  posterUrl,
+  items,
+  aspectRatio = 1,
+}: PostMediaProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+
+  const sortedItems = [...(items || [])].sort((a, b) => a.position - b.position);
+
+  useEffect(() => {
+    if (!api) return;
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  // Posts created before carousels existed only have the single media columns
+  if (sortedItems.length <= 1) {
+    return (
+      <div className="bg-muted" style={{ aspectRatio }}>
+        <MediaElement
+          url={mediaUrl}
+          type={mediaType}
+          variants={variants}
+          blurhash={blurhash}
+          posterUrl={posterUrl}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative bg-muted">
+      <Carousel setApi={setApi}>
+        <CarouselContent className="ml-0">
+          {sortedItems.map((item) => (
+            <CarouselItem key={item.id} className="pl-0">
+              <div style={{ aspectRatio }}>
+                <MediaElement
+                  url={item.media_url}
+                  type={item.media_type}
+                  variants={item.variants}
+                  blurhash={item.blurhash}
+                  posterUrl={item.poster_url}
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+      </Carousel>
+
+      <div className="absolute top-3 right-3 rounded-full bg-black/60 px-2 py-0.5 text-xs text-white">
+        {current + 1}/{sortedItems.length}
+      </div>
+
+      <div className="absolute bottom-3 left-0 right-0 flex justify-center gap-1.5">
+        {sortedItems.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            aria-label={`Go to slide ${index + 1}`}
+            onClick={() => api?.scrollTo(index)}
+            className={cn(
+              "h-1.5 w-1.5 rounded-full transition-colors",
+              index === current ? "bg-primary" : "bg-white/60"
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PostMedia;
@@ -0,0 +1,60 @@
+import { Play } from "lucide-react";
+import ResponsiveImage from "./ResponsiveImage";
+import type { Json } from "@/integrations/supabase/types";
+import { formatDuration } from "@/lib/video-metadata";
+
+interface PostThumbnailProps {
+  post: {
+    media_url: string;
+    media_type: string;
+    media_variants: Json | null;
+    blurhash: string | null;
+    poster_url: string | null;
+    duration: number | null;
+  };
+  sizes?: string;
+}
+
+// Square grid tile. Videos show their poster frame with a play badge and
+// duration; ones uploaded before posters existed fall back to the first frame.
+const PostThumbnail = ({ post, sizes }: PostThumbnailProps) => {
+  if (post.media_type !== "video") {
+    return (
+      <ResponsiveImage
+        src={post.media_url}
+        variants={post.media_variants}
+        blurhash={post.blurhash}
+        sizes={sizes}
+      />
+    );
+  }
+
+  return (
+    <div className="relative w-full h-full">
+      {post.poster_url ? (
+        <ResponsiveImage
+          src={post.poster_url}
+          variants={post.media_variants}
+          blurhash={post.blurhash}
+          sizes={sizes}
+        />
+      ) : (
+        <video
+          src={post.media_url}
+          muted
+          playsInline
+          preload="metadata"
+          className="w-full h-full object-cover"
+        />
+      )}
+      <div className="absolute top-2 right-2 flex items-center gap-1 text-white drop-shadow">
+        {post.duration != null && (
+          <span className="text-xs font-semibold">{formatDuration(post.duration)}</span>
+        )}
+        <Play className="h-4 w-4 fill-white" />
+      </div>
+    </div>
+  );
+};
+
+export default PostThumbnail;
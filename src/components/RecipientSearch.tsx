@@ -0,0 +1,108 @@
+import { ReactNode, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Input } from "./ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Check, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Participant } from "@/lib/messages";
+
+interface RecipientSearchProps {
+  currentUserId: string | null;
+  selected: Participant[];
+  onToggle: (participant: Participant) => void;
+  // Shown in place of results while the search box is empty
+  emptyState?: ReactNode;
+}
+
+const RecipientSearch = ({ currentUserId, selected, onToggle, emptyState }: RecipientSearchProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<Participant[]>([]);
+  const [searching, setSearching] = useState(false);
+  const debouncedQuery = useDebounce(query.trim(), 200);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const pattern = `%${debouncedQuery.replace(/[%_\\]/g, "\\$&")}%`;
+
+    let request = supabase
+      .from("profiles")
+      .select("id, username, avatar_url")
+      .or(`username.ilike.${pattern},full_name.ilike.${pattern}`)
+      .limit(10);
+    if (currentUserId) {
+      request = request.neq("id", currentUserId);
+    }
+
+    request.then(({ data }) => {
+      if (cancelled) return;
+      setResults(data || []);
+      setSearching(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery, currentUserId]);
+
+  const isSelected = (participant: Participant) =>
+    selected.some((s) => s.id === participant.id);
+
+  return (
+    <div className="space-y-2">
+      <Input
+        placeholder="Search people..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        autoFocus
+      />
+
+      <div className="max-h-72 overflow-y-auto">
+        {!query.trim() ? (
+          emptyState
+        ) : searching && results.length === 0 ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-primary" />
+          </div>
+        ) : results.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No accounts found</p>
+        ) : (
+          results.map((participant) => (
+            <button
+              key={participant.id}
+              type="button"
+              onClick={() => onToggle(participant)}
+              className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-muted"
+            >
+              <Avatar className="h-9 w-9">
+                <AvatarImage src={participant.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                  {participant.username[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <span className="flex-1 text-sm font-semibold">{participant.username}</span>
+              <span
+                className={cn(
+                  "flex h-5 w-5 items-center justify-center rounded-full border",
+                  isSelected(participant)
+                    ? "border-primary bg-primary text-primary-foreground"
+                    : "border-muted-foreground"
+                )}
+              >
+                {isSelected(participant) && <Check className="h-3 w-3" />}
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecipientSearch;
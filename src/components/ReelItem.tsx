@@ -0,0 +1,214 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Button } from "./ui/button";
+import CaptionText from "./CaptionText";
+import CommentsSheet from "./CommentsSheet";
+import SharePostDialog from "./SharePostDialog";
+import { usePostInteractions } from "@/hooks/use-post-interactions";
+import { Heart, MessageCircle, Send, Bookmark, Volume2, VolumeX, Play } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface Reel {
+  id: string;
+  user_id: string;
+  media_url: string;
+  poster_url: string | null;
+  caption: string | null;
+  created_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+  likes: { id: string }[];
+  comments: { id: string }[];
+}
+
+interface ReelItemProps {
+  reel: Reel;
+  active: boolean;
+  preload: boolean;
+  muted: boolean;
+  onToggleMute: () => void;
+}
+
+// Two taps closer together than this count as a double tap
+const DOUBLE_TAP_DELAY = 300;
+
+const ReelItem = ({ reel, active, preload, muted, onToggleMute }: ReelItemProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastTapRef = useRef(0);
+  const tapTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const [paused, setPaused] = useState(false);
+  const [showHeart, setShowHeart] = useState(false);
+  const [commentsCount, setCommentsCount] = useState(reel.comments.length);
+  const [commentsOpen, setCommentsOpen] = useState(false);
+  const [shareOpen, setShareOpen] = useState(false);
+  const { isLiked, isSaved, likesCount, toggleLike, toggleSave, copyLink, share } =
+    usePostInteractions(reel);
+
+  // Only the reel on screen plays; the rest stay paused at their position
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (active) {
+      video.play().catch(() => setPaused(true));
+      setPaused(false);
+    } else {
+      video.pause();
+    }
+  }, [active]);
+
+  useEffect(() => () => clearTimeout(tapTimeoutRef.current), []);
+
+  const togglePlayback = () => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (video.paused) {
+      video.play().catch(() => {});
+      setPaused(false);
+    } else {
+      video.pause();
+      setPaused(true);
+    }
+  };
+
+  const handleTap = () => {
+    const now = Date.now();
+    clearTimeout(tapTimeoutRef.current);
+
+    if (now - lastTapRef.current < DOUBLE_TAP_DELAY) {
+      lastTapRef.current = 0;
+      setShowHeart(true);
+      setTimeout(() => setShowHeart(false), 800);
+      // A double tap only ever likes, like it does on the feed
+      if (!isLiked) toggleLike();
+      return;
+    }
+
+    lastTapRef.current = now;
+    tapTimeoutRef.current = setTimeout(togglePlayback, DOUBLE_TAP_DELAY);
+  };
+
+  return (
+    <div className="relative h-full w-full bg-black">
+      <video
+        ref={videoRef}
+        src={reel.media_url}
+        poster={reel.poster_url ?? undefined}
+        muted={muted}
+        loop
+        playsInline
+        preload={active || preload ? "auto" : "metadata"}
+        onClick={handleTap}
+        className="h-full w-full object-contain"
+      />
+
+      {paused && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <Play className="h-16 w-16 fill-white/80 text-white/80" />
+        </div>
+      )}
+
+      {showHeart && (
+        <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+          <Heart className="h-24 w-24 fill-white text-white drop-shadow-lg animate-in zoom-in fade-in duration-300" />
+        </div>
+      )}
+
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={onToggleMute}
+        className="absolute top-3 right-3 rounded-full bg-black/40 text-white hover:bg-black/60 hover:text-white"
+        aria-label={muted ? "Unmute" : "Mute"}
+      >
+        {muted ? <VolumeX className="h-5 w-5" /> : <Volume2 className="h-5 w-5" />}
+      </Button>
+
+      {/* Actions */}
+      <div className="absolute right-2 bottom-6 flex flex-col items-center gap-4 text-white">
+        <div className="flex flex-col items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={toggleLike}
+            className={cn(
+              "hover:bg-white/10 hover:text-white",
+              isLiked && "text-red-500 hover:text-red-500"
+            )}
+          >
+            <Heart className="h-7 w-7" fill={isLiked ? "currentColor" : "none"} />
+          </Button>
+          <span className="text-xs font-semibold">{likesCount}</span>
+        </div>
+        <div className="flex flex-col items-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setCommentsOpen(true)}
+            className="hover:bg-white/10 hover:text-white"
+          >
+            <MessageCircle className="h-7 w-7" />
+          </Button>
+          <span className="text-xs font-semibold">{commentsCount}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setShareOpen(true)}
+          className="hover:bg-white/10 hover:text-white"
+        >
+          <Send className="h-7 w-7" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={toggleSave}
+          className="hover:bg-white/10 hover:text-white"
+        >
+          <Bookmark className="h-7 w-7" fill={isSaved ? "currentColor" : "none"} />
+        </Button>
+      </div>
+
+      {/* Author and caption */}
+      <div className="absolute left-0 right-16 bottom-0 p-4 space-y-2 text-white bg-gradient-to-t from-black/70 to-transparent">
+        <Link to={`/u/${reel.profiles.username}`} className="flex items-center gap-2">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={reel.profiles.avatar_url || undefined} />
+            <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+              {reel.profiles.username[0].toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <span className="font-semibold text-sm hover:underline">
+            {reel.profiles.username}
+          </span>
+        </Link>
+        {reel.caption && (
+          <p className="text-sm line-clamp-2">
+            <CaptionText text={reel.caption} />
+          </p>
+        )}
+      </div>
+
+      <CommentsSheet
+        postId={reel.id}
+        open={commentsOpen}
+        onOpenChange={setCommentsOpen}
+        onCountChange={setCommentsCount}
+      />
+
+      <SharePostDialog
+        postId={reel.id}
+        open={shareOpen}
+        onOpenChange={setShareOpen}
+        onCopyLink={copyLink}
+        onShareExternally={share}
+      />
+    </div>
+  );
+};
+
+export default ReelItem;
@@ -0,0 +1,122 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Label } from "./ui/label";
+import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
+import { Textarea } from "./ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  REPORT_REASONS,
+  submitReport,
+  type ReportReason,
+  type ReportTarget,
+} from "@/lib/reports";
+
+interface ReportDialogProps {
+  target: ReportTarget;
+  currentUserId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TARGET_LABELS = {
+  post: "post",
+  comment: "comment",
+  profile: "account",
+} as const;
+
+const MAX_DETAILS_LENGTH = 500;
+
+const ReportDialog = ({ target, currentUserId, open, onOpenChange }: ReportDialogProps) => {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason(null);
+      setDetails("");
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+    if (!currentUserId) {
+      toast.error("Log in to report content");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await submitReport(currentUserId, target, reason, details);
+      toast.success("Thanks for letting us know. We'll review your report.");
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error submitting report:", error);
+      toast.error("Failed to submit report");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Report {TARGET_LABELS[target.type]}</DialogTitle>
+          <DialogDescription>
+            Why are you reporting this {TARGET_LABELS[target.type]}? Your report is
+            anonymous.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={reason ?? ""}
+          onValueChange={(value) => setReason(value as ReportReason)}
+        >
+          {REPORT_REASONS.map((option) => (
+            <div key={option.value} className="flex items-center gap-3">
+              <RadioGroupItem value={option.value} id={`report-${option.value}`} />
+              <Label htmlFor={`report-${option.value}`} className="font-normal">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-1">
+          <Textarea
+            placeholder="Add details (optional)"
+            rows={3}
+            maxLength={MAX_DETAILS_LENGTH}
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {details.length}/{MAX_DETAILS_LENGTH}
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!reason || submitting}>
+            {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Submit report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
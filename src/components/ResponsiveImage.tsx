@@ -0,0 +1,75 @@
+import { useEffect, useRef, useState } from "react";
+import { decode } from "blurhash";
+import type { Json } from "@/integrations/supabase/types";
+import { buildSrcSet, parseVariants, type MediaVariant } from "@/lib/image-variants";
+import { cn } from "@/lib/utils";
+
+interface ResponsiveImageProps {
+  src: string;
+  variants?: Json | MediaVariant[] | null;
+  blurhash?: string | null;
+  sizes?: string;
+  alt?: string;
+  className?: string;
+}
+
+const PLACEHOLDER_SIZE = 32;
+
+const ResponsiveImage = ({
+  src,
+  variants,
+  blurhash,
+  sizes = "100vw",
+  alt = "Post",
+  className,
+}: ResponsiveImageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [loaded, setLoaded] = useState(false);
+  const parsedVariants = parseVariants(variants);
+
+  useEffect(() => {
+    setLoaded(false);
+  }, [src]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !blurhash || loaded) return;
+
+    try {
+      const pixels = decode(blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+      const imageData = ctx.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+      imageData.data.set(pixels);
+      ctx.putImageData(imageData, 0, 0);
+    } catch (error) {
+      console.error("Invalid blurhash:", error);
+    }
+  }, [blurhash, loaded]);
+
+  return (
+    <div className={cn("relative w-full h-full overflow-hidden", className)}>
+      {blurhash && !loaded && (
+        <canvas
+          ref={canvasRef}
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          className="absolute inset-0 w-full h-full"
+        />
+      )}
+      <img
+        src={src}
+        srcSet={parsedVariants.length > 0 ? buildSrcSet(parsedVariants) : undefined}
+        sizes={parsedVariants.length > 0 ? sizes : undefined}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setLoaded(true)}
+        className={cn(
+          "relative w-full h-full object-cover transition-opacity duration-300",
+          blurhash && !loaded ? "opacity-0" : "opacity-100"
+        )}
+      />
+    </div>
+  );
+};
+
+export default ResponsiveImage;
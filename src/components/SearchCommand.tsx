@@ -0,0 +1,316 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useDebounce } from "@/hooks/use-debounce";
+import { useRecentSearches, type RecentSearch } from "@/hooks/use-recent-searches";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Hash, MapPin, Clock, X, Loader2 } from "lucide-react";
+
+interface ProfileResult {
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+interface HashtagResult {
+  id: string;
+  name: string;
+  post_count: number;
+}
+
+interface LocationResult {
+  location: string;
+  count: number;
+}
+
+interface SearchCommandProps {
+  onSelectLocation: (location: string) => void;
+}
+
+// Strip characters that would break PostgREST filter syntax and escape LIKE wildcards
+const toPattern = (query: string) =>
+  `%${query.replace(/[,()]/g, " ").replace(/[%_\\]/g, "\\$&")}%`;
+
+const SearchCommand = ({ onSelectLocation }: SearchCommandProps) => {
+  const navigate = useNavigate();
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<ProfileResult[]>([]);
+  const [hashtags, setHashtags] = useState<HashtagResult[]>([]);
+  const [locations, setLocations] = useState<LocationResult[]>([]);
+  const debouncedQuery = useDebounce(query.trim(), 300);
+  const { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } =
+    useRecentSearches(currentUserId);
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      setCurrentUserId(user?.id ?? null);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!debouncedQuery) {
+      setProfiles([]);
+      setHashtags([]);
+      setLocations([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const search = async () => {
+      setLoading(true);
+      try {
+        const pattern = toPattern(debouncedQuery);
+        const tagPattern = toPattern(debouncedQuery.replace(/^#/, "").toLowerCase());
+
+        const [profilesRes, hashtagsRes, locationsRes] = await Promise.all([
+          supabase
+            .from("profiles")
+            .select("id, username, full_name, avatar_url")
+            .or(`username.ilike.${pattern},full_name.ilike.${pattern}`)
+            .limit(8),
+          supabase
+            .from("hashtags")
+            .select("id, name, post_count")
+            .ilike("name", tagPattern)
+            .order("post_count", { ascending: false })
+            .limit(8),
+          supabase
+            .from("posts")
+            .select("location")
+            .ilike("location", pattern)
+            .limit(200),
+        ]);
+
+        if (cancelled) return;
+
+        if (profilesRes.error) throw profilesRes.error;
+        if (hashtagsRes.error) throw hashtagsRes.error;
+        if (locationsRes.error) throw locationsRes.error;
+
+        // Group matching posts by location so each place appears once
+        const locationCounts = new Map<string, number>();
+        for (const { location } of locationsRes.data || []) {
+          if (!location) continue;
+          locationCounts.set(location, (locationCounts.get(location) || 0) + 1);
+        }
+
+        setProfiles(profilesRes.data || []);
+        setHashtags(hashtagsRes.data || []);
+        setLocations(
+          Array.from(locationCounts, ([location, count]) => ({ location, count }))
+            .sort((a, b) => b.count - a.count)
+            .slice(0, 8)
+        );
+      } catch (error) {
+        console.error("Error searching:", error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    search();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  const selectSearch = (search: RecentSearch) => {
+    addRecentSearch(search);
+    setOpen(false);
+    setQuery("");
+
+    switch (search.type) {
+      case "user":
+        navigate(`/u/${search.value}`);
+        break;
+      case "hashtag":
+        navigate(`/tags/${encodeURIComponent(search.value)}`);
+        break;
+      case "location":
+        onSelectLocation(search.value);
+        break;
+    }
+  };
+
+  const getSearchIcon = (type: RecentSearch["type"]) => {
+    switch (type) {
+      case "hashtag":
+        return <Hash className="h-4 w-4 mr-2" />;
+      case "location":
+        return <MapPin className="h-4 w-4 mr-2" />;
+      default:
+        return <Clock className="h-4 w-4 mr-2" />;
+    }
+  };
+
+  const hasResults = profiles.length + hashtags.length + locations.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      className="relative overflow-visible border border-input bg-background"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") setOpen(false);
+      }}
+    >
+      <CommandInput
+        placeholder="Search users, hashtags, or locations..."
+        value={query}
+        onValueChange={(value) => {
+          setQuery(value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+      />
+
+      {open && (
+        <CommandList
+          className="absolute top-full left-0 right-0 z-40 mt-1 rounded-md border border-border bg-popover shadow-md"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {!debouncedQuery ? (
+            recentSearches.length === 0 ? (
+              <CommandEmpty>No recent searches</CommandEmpty>
+            ) : (
+              <CommandGroup heading="Recent">
+                {recentSearches.map((search) => (
+                  <CommandItem
+                    key={`${search.type}:${search.value}`}
+                    value={`recent:${search.type}:${search.value}`}
+                    onSelect={() => selectSearch(search)}
+                  >
+                    {getSearchIcon(search.type)}
+                    <span className="flex-1">{search.label}</span>
+                    <button
+                      type="button"
+                      className="text-muted-foreground hover:text-foreground"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeRecentSearch(search);
+                      }}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </CommandItem>
+                ))}
+                <CommandItem
+                  value="recent:clear"
+                  onSelect={clearRecentSearches}
+                  className="justify-center text-xs text-muted-foreground"
+                >
+                  Clear recent searches
+                </CommandItem>
+              </CommandGroup>
+            )
+          ) : loading && !hasResults ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <CommandEmpty>No results found</CommandEmpty>
+
+              {profiles.length > 0 && (
+                <CommandGroup heading="Users">
+                  {profiles.map((profile) => (
+                    <CommandItem
+                      key={profile.id}
+                      value={`user:${profile.username}`}
+                      onSelect={() =>
+                        selectSearch({
+                          type: "user",
+                          value: profile.username,
+                          label: profile.username,
+                        })
+                      }
+                    >
+                      <Avatar className="h-8 w-8 mr-3">
+                        <AvatarImage src={profile.avatar_url || undefined} />
+                        <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white text-xs">
+                          {profile.username[0].toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div>
+                        <p className="font-semibold">{profile.username}</p>
+                        {profile.full_name && (
+                          <p className="text-xs text-muted-foreground">
+                            {profile.full_name}
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {hashtags.length > 0 && (
+                <CommandGroup heading="Hashtags">
+                  {hashtags.map((hashtag) => (
+                    <CommandItem
+                      key={hashtag.id}
+                      value={`hashtag:${hashtag.name}`}
+                      onSelect={() =>
+                        selectSearch({
+                          type: "hashtag",
+                          value: hashtag.name,
+                          label: `#${hashtag.name}`,
+                        })
+                      }
+                    >
+                      <Hash className="h-4 w-4 mr-2" />
+                      <span className="flex-1">#{hashtag.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {hashtag.post_count}{" "}
+                        {hashtag.post_count === 1 ? "post" : "posts"}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+
+              {locations.length > 0 && (
+                <CommandGroup heading="Places">
+                  {locations.map(({ location, count }) => (
+                    <CommandItem
+                      key={location}
+                      value={`location:${location}`}
+                      onSelect={() =>
+                        selectSearch({
+                          type: "location",
+                          value: location,
+                          label: location,
+                        })
+                      }
+                    >
+                      <MapPin className="h-4 w-4 mr-2" />
+                      <span className="flex-1">{location}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {count} {count === 1 ? "post" : "posts"}
+                      </span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+            </>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+};
+
+export default SearchCommand;
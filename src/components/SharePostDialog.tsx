@@ -0,0 +1,198 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import RecipientSearch from "./RecipientSearch";
+import ConversationAvatar from "./ConversationAvatar";
+import { Check, Link as LinkIcon, Loader2, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import {
+  createConversation,
+  fetchInbox,
+  getConversationName,
+  sendMessage,
+  type InboxConversation,
+  type Participant,
+} from "@/lib/messages";
+
+interface SharePostDialogProps {
+  postId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCopyLink: () => void;
+  onShareExternally: () => void;
+}
+
+const RECENT_CONVERSATIONS = 8;
+
+const SharePostDialog = ({
+  postId,
+  open,
+  onOpenChange,
+  onCopyLink,
+  onShareExternally,
+}: SharePostDialogProps) => {
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [recent, setRecent] = useState<InboxConversation[]>([]);
+  const [selectedConversations, setSelectedConversations] = useState<string[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<Participant[]>([]);
+  const [message, setMessage] = useState("");
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedConversations([]);
+    setSelectedUsers([]);
+    setMessage("");
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      setCurrentUserId(user?.id ?? null);
+    });
+    fetchInbox()
+      .then((inbox) => setRecent(inbox.slice(0, RECENT_CONVERSATIONS)))
+      .catch((error) => console.error("Error fetching conversations:", error));
+  }, [open]);
+
+  const toggleConversation = (conversationId: string) => {
+    setSelectedConversations((prev) =>
+      prev.includes(conversationId)
+        ? prev.filter((id) => id !== conversationId)
+        : [...prev, conversationId]
+    );
+  };
+
+  const toggleUser = (participant: Participant) => {
+    setSelectedUsers((prev) =>
+      prev.some((p) => p.id === participant.id)
+        ? prev.filter((p) => p.id !== participant.id)
+        : [...prev, participant]
+    );
+  };
+
+  const handleSend = async () => {
+    if (!currentUserId) return;
+
+    setSending(true);
+    try {
+      // Each selected person gets the post in their one-to-one conversation
+      const userConversations = await Promise.all(
+        selectedUsers.map((participant) => createConversation([participant.id]))
+      );
+      const conversationIds = [...new Set([...selectedConversations, ...userConversations])];
+
+      await Promise.all(
+        conversationIds.map((conversationId) =>
+          sendMessage({
+            conversationId,
+            senderId: currentUserId,
+            content: message,
+            sharedPostId: postId,
+          })
+        )
+      );
+
+      toast.success(conversationIds.length === 1 ? "Sent" : `Sent to ${conversationIds.length} chats`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sharing post:", error);
+      toast.error("Failed to send post");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const selectionCount = selectedConversations.length + selectedUsers.length;
+
+  const recentConversations =
+    recent.length === 0 ? (
+      <p className="py-6 text-center text-sm text-muted-foreground">
+        Search for someone to send this post to
+      </p>
+    ) : (
+      recent.map((conversation) => {
+        const selected = selectedConversations.includes(conversation.id);
+
+        return (
+          <button
+            key={conversation.id}
+            type="button"
+            onClick={() => toggleConversation(conversation.id)}
+            className="flex w-full items-center gap-3 rounded-md p-2 text-left hover:bg-muted"
+          >
+            <ConversationAvatar
+              isGroup={conversation.is_group}
+              participants={conversation.participants}
+              className="h-9 w-9"
+            />
+            <span className="flex-1 truncate text-sm font-semibold">
+              {getConversationName(conversation)}
+            </span>
+            <span
+              className={cn(
+                "flex h-5 w-5 items-center justify-center rounded-full border",
+                selected
+                  ? "border-primary bg-primary text-primary-foreground"
+                  : "border-muted-foreground"
+              )}
+            >
+              {selected && <Check className="h-3 w-3" />}
+            </span>
+          </button>
+        );
+      })
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+        </DialogHeader>
+
+        <RecipientSearch
+          currentUserId={currentUserId}
+          selected={selectedUsers}
+          onToggle={toggleUser}
+          emptyState={recentConversations}
+        />
+
+        {selectionCount > 0 && (
+          <Input
+            placeholder="Write a message..."
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={2000}
+          />
+        )}
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={onCopyLink}>
+              <LinkIcon className="mr-2 h-4 w-4" />
+              Copy link
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={onShareExternally}>
+              <Share2 className="mr-2 h-4 w-4" />
+              Share to...
+            </Button>
+          </div>
+          <Button onClick={handleSend} disabled={selectionCount === 0 || sending}>
+            {sending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SharePostDialog;
@@ -0,0 +1,59 @@
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import PostThumbnail from "./PostThumbnail";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface SharedPost {
+  id: string;
+  media_url: string;
+  media_type: string;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
+  duration: number | null;
+  caption: string | null;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+// A post sent in a direct message. Deleted posts leave the message behind
+// with no post attached.
+const SharedPostCard = ({ post }: { post: SharedPost | null }) => {
+  if (!post) {
+    return (
+      <div className="w-60 rounded-xl border border-border p-4 text-sm italic text-muted-foreground">
+        This post is no longer available
+      </div>
+    );
+  }
+
+  return (
+    <Link
+      to={`/p/${post.id}`}
+      className="block w-60 overflow-hidden rounded-xl border border-border bg-card hover:opacity-90 transition-opacity"
+    >
+      <div className="flex items-center gap-2 p-2">
+        <Avatar className="h-6 w-6">
+          <AvatarImage src={post.profiles.avatar_url || undefined} />
+          <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white text-xs">
+            {post.profiles.username[0].toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <span className="text-sm font-semibold">{post.profiles.username}</span>
+      </div>
+      <div className="aspect-square bg-muted">
+        <PostThumbnail post={post} sizes="240px" />
+      </div>
+      {post.caption && (
+        <p className="p-2 text-sm line-clamp-2">
+          <span className="font-semibold mr-1">{post.profiles.username}</span>
+          {post.caption}
+        </p>
+      )}
+    </Link>
+  );
+};
+
+export default SharedPostCard;
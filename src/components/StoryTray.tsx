@@ -0,0 +1,270 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { Input } from "./ui/input";
+import StoryViewer, { type Story, type StoryGroup } from "./StoryViewer";
+import { Loader2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { validateMediaFile } from "@/lib/media-validation";
+import { uploadResumable } from "@/lib/resumable-upload";
+import { extractVideoMetadata } from "@/lib/video-metadata";
+
+interface Profile {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+const StoryTray = () => {
+  const [currentUser, setCurrentUser] = useState<Profile | null>(null);
+  const [groups, setGroups] = useState<StoryGroup[]>([]);
+  const [viewerOpen, setViewerOpen] = useState(false);
+  const [viewerGroupIndex, setViewerGroupIndex] = useState(0);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    fetchStories();
+  }, []);
+
+  const fetchStories = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("id, username, avatar_url")
+        .eq("id", user.id)
+        .single();
+      setCurrentUser(profile);
+
+      const { data: follows } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", user.id);
+
+      const authorIds = [user.id, ...(follows || []).map((f) => f.following_id)];
+
+      // Expired stories are filtered out by RLS
+      const { data: stories, error } = await supabase
+        .from("stories")
+        .select("*, profiles (id, username, avatar_url)")
+        .in("user_id", authorIds)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const { data: views } = await supabase
+        .from("story_views")
+        .select("story_id")
+        .eq("viewer_id", user.id)
+        .in(
+          "story_id",
+          (stories || []).map((story) => story.id)
+        );
+      const seenIds = new Set((views || []).map((view) => view.story_id));
+
+      const byUser = new Map<string, StoryGroup>();
+      for (const { profiles, ...story } of stories || []) {
+        const group = byUser.get(story.user_id) ?? { user: profiles, stories: [] };
+        group.stories.push({
+          ...story,
+          seen: story.user_id === user.id || seenIds.has(story.id),
+        });
+        byUser.set(story.user_id, group);
+      }
+
+      // Your own story first, then accounts with something new to watch
+      const hasUnseen = (group: StoryGroup) => group.stories.some((story) => !story.seen);
+      const others = [...byUser.values()]
+        .filter((group) => group.user.id !== user.id)
+        .sort((a, b) => Number(hasUnseen(b)) - Number(hasUnseen(a)));
+      const own = byUser.get(user.id);
+
+      setGroups(own ? [own, ...others] : others);
+    } catch (error) {
+      console.error("Error fetching stories:", error);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !currentUser) return;
+
+    const validationError = validateMediaFile(file);
+    if (validationError) {
+      toast.error(validationError);
+      return;
+    }
+
+    setUploading(true);
+    const basePath = `${currentUser.id}/${Date.now()}`;
+    const uploadedPaths: string[] = [];
+
+    try {
+      const isVideo = file.type.startsWith("video/");
+      const path = `${basePath}.${file.name.split(".").pop()}`;
+
+      await uploadResumable({
+        bucket: "stories",
+        path,
+        file,
+        contentType: file.type,
+      }).promise;
+      uploadedPaths.push(path);
+
+      let posterUrl: string | null = null;
+      let duration: number | null = null;
+      if (isVideo) {
+        try {
+          const metadata = await extractVideoMetadata(file);
+          const posterPath = `${basePath}_poster.jpg`;
+          const { error } = await supabase.storage
+            .from("stories")
+            .upload(posterPath, metadata.poster, { contentType: "image/jpeg" });
+          if (error) throw error;
+
+          uploadedPaths.push(posterPath);
+          posterUrl = supabase.storage.from("stories").getPublicUrl(posterPath).data.publicUrl;
+          duration = metadata.duration;
+        } catch (error) {
+          console.error("Error creating story poster:", error);
+        }
+      }
+
+      const { error } = await supabase.from("stories").insert({
+        user_id: currentUser.id,
+        media_url: supabase.storage.from("stories").getPublicUrl(path).data.publicUrl,
+        media_type: isVideo ? "video" : "image",
+        poster_url: posterUrl,
+        duration,
+      });
+      if (error) throw error;
+
+      toast.success("Added to your story");
+      fetchStories();
+    } catch (error) {
+      console.error("Error creating story:", error);
+      if (uploadedPaths.length > 0) {
+        await supabase.storage.from("stories").remove(uploadedPaths);
+      }
+      toast.error(error instanceof Error ? error.message : "Failed to add story");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const markViewed = useCallback((storyId: string) => {
+    setGroups((prev) =>
+      prev.map((group) => ({
+        ...group,
+        stories: group.stories.map((story) =>
+          story.id === storyId ? { ...story, seen: true } : story
+        ),
+      }))
+    );
+  }, []);
+
+  const openViewer = (index: number) => {
+    setViewerGroupIndex(index);
+    setViewerOpen(true);
+  };
+
+  if (!currentUser) return null;
+
+  const ownGroup = groups[0]?.user.id === currentUser.id ? groups[0] : null;
+
+  return (
+    <div className="flex gap-4 overflow-x-auto pb-2">
+      {/* Your story */}
+      <div className="flex shrink-0 flex-col items-center gap-1 w-16">
+        <div className="relative">
+          <button
+            type="button"
+            disabled={!ownGroup}
+            onClick={() => openViewer(0)}
+            className={cn("rounded-full p-[2px]", ownGroup ? "bg-border" : "bg-transparent")}
+          >
+            <Avatar className="h-14 w-14 border-2 border-background">
+              <AvatarImage src={currentUser.avatar_url || undefined} />
+              <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                {currentUser.username[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+          </button>
+          <label
+            htmlFor="story-upload"
+            className="absolute bottom-0 right-0 flex h-5 w-5 cursor-pointer items-center justify-center rounded-full border-2 border-background bg-primary text-primary-foreground"
+          >
+            {uploading ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <Plus className="h-3 w-3" />
+            )}
+            <span className="sr-only">Add to your story</span>
+          </label>
+          <Input
+            id="story-upload"
+            type="file"
+            accept="image/*,video/*"
+            disabled={uploading}
+            onChange={handleFileChange}
+            className="hidden"
+          />
+        </div>
+        <span className="w-full truncate text-center text-xs">Your story</span>
+      </div>
+
+      {groups.map((group, index) => {
+        if (group === ownGroup) return null;
+        const unseen = group.stories.some((story: Story) => !story.seen);
+
+        return (
+          <button
+            key={group.user.id}
+            type="button"
+            onClick={() => openViewer(index)}
+            className="flex shrink-0 flex-col items-center gap-1 w-16"
+          >
+            <div
+              className={cn(
+                "rounded-full p-[2px]",
+                unseen ? "bg-gradient-to-tr from-accent to-primary" : "bg-border"
+              )}
+            >
+              <Avatar className="h-14 w-14 border-2 border-background">
+                <AvatarImage src={group.user.avatar_url || undefined} />
+                <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                  {group.user.username[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+            </div>
+            <span
+              className={cn(
+                "w-full truncate text-center text-xs",
+                !unseen && "text-muted-foreground"
+              )}
+            >
+              {group.user.username}
+            </span>
+          </button>
+        );
+      })}
+
+      <StoryViewer
+        groups={groups}
+        startGroupIndex={viewerGroupIndex}
+        open={viewerOpen}
+        onOpenChange={setViewerOpen}
+        currentUserId={currentUser.id}
+        onStoryViewed={markViewed}
+      />
+    </div>
+  );
+};
+
+export default StoryTray;
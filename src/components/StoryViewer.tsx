@@ -0,0 +1,351 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogTitle } from "./ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "./ui/avatar";
+import { ScrollArea } from "./ui/scroll-area";
+import { Eye, Loader2, X } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+export interface Story {
+  id: string;
+  user_id: string;
+  media_url: string;
+  media_type: string;
+  poster_url: string | null;
+  duration: number | null;
+  created_at: string;
+  seen: boolean;
+}
+
+export interface StoryGroup {
+  user: {
+    id: string;
+    username: string;
+    avatar_url: string | null;
+  };
+  stories: Story[];
+}
+
+interface StoryView {
+  viewed_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+interface StoryViewerProps {
+  groups: StoryGroup[];
+  startGroupIndex: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentUserId: string | null;
+  onStoryViewed: (storyId: string) => void;
+}
+
+// How long a photo stays on screen; videos play for their own length
+const IMAGE_DURATION_MS = 5000;
+// Presses longer than this pause the story instead of advancing it
+const HOLD_THRESHOLD_MS = 200;
+
+// Open a group on its first unseen story, or from the start if all are seen
+const firstUnseenIndex = (group?: StoryGroup) =>
+  Math.max(0, group?.stories.findIndex((story) => !story.seen) ?? 0);
+
+const StoryViewer = ({
+  groups,
+  startGroupIndex,
+  open,
+  onOpenChange,
+  currentUserId,
+  onStoryViewed,
+}: StoryViewerProps) => {
+  const [groupIndex, setGroupIndex] = useState(startGroupIndex);
+  const [storyIndex, setStoryIndex] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [holding, setHolding] = useState(false);
+  const [viewersOpen, setViewersOpen] = useState(false);
+  const [viewers, setViewers] = useState<StoryView[]>([]);
+  const [loadingViewers, setLoadingViewers] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const pressStartRef = useRef(0);
+  // Seen flags change while the viewer is open; only the groups at the
+  // moment it opens decide where it starts
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
+
+  const group = groups[groupIndex];
+  const story = group?.stories[storyIndex];
+  const storyId = story?.id;
+  const storySeen = story?.seen;
+  const mediaType = story?.media_type;
+  const isOwnStory = !!story && story.user_id === currentUserId;
+  const paused = holding || viewersOpen;
+
+  useEffect(() => {
+    if (!open) return;
+    setGroupIndex(startGroupIndex);
+    setStoryIndex(firstUnseenIndex(groupsRef.current[startGroupIndex]));
+    setViewersOpen(false);
+  }, [open, startGroupIndex]);
+
+  useEffect(() => {
+    setProgress(0);
+  }, [storyId]);
+
+  // Record the view the first time someone else's story is shown. Authors'
+  // own stories always count as seen.
+  useEffect(() => {
+    if (!open || !storyId || !currentUserId || storySeen) return;
+
+    onStoryViewed(storyId);
+    supabase
+      .from("story_views")
+      .upsert(
+        { story_id: storyId, viewer_id: currentUserId },
+        { onConflict: "story_id,viewer_id", ignoreDuplicates: true }
+      )
+      .then(({ error }) => {
+        if (error) console.error("Error recording story view:", error);
+      });
+  }, [open, storyId, storySeen, currentUserId, onStoryViewed]);
+
+  // Progress is reset in the same update that changes the story, so the
+  // finished photo's full bar can't advance the next one as well
+  const goToNext = useCallback(() => {
+    if (!group) return;
+    setProgress(0);
+    if (storyIndex < group.stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (groupIndex < groups.length - 1) {
+      setGroupIndex(groupIndex + 1);
+      setStoryIndex(firstUnseenIndex(groups[groupIndex + 1]));
+    } else {
+      onOpenChange(false);
+    }
+  }, [group, groups, groupIndex, storyIndex, onOpenChange]);
+
+  const goToPrevious = () => {
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (groupIndex > 0) {
+      setGroupIndex(groupIndex - 1);
+      setStoryIndex(0);
+    } else {
+      setProgress(0);
+      if (videoRef.current) videoRef.current.currentTime = 0;
+    }
+  };
+
+  // Photos advance on a timer that stops while the story is held
+  useEffect(() => {
+    if (!open || !storyId || mediaType !== "image" || paused) return;
+
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const elapsed = now - last;
+      last = now;
+      setProgress((current) => Math.min(1, current + elapsed / IMAGE_DURATION_MS));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [open, storyId, mediaType, paused]);
+
+  useEffect(() => {
+    if (progress >= 1 && mediaType === "image") goToNext();
+  }, [progress, mediaType, goToNext]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (paused) {
+      video.pause();
+    } else {
+      video.play().catch(() => {});
+    }
+  }, [paused, storyId]);
+
+  const handlePointerDown = () => {
+    pressStartRef.current = Date.now();
+    setHolding(true);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    setHolding(false);
+    if (Date.now() - pressStartRef.current > HOLD_THRESHOLD_MS) return;
+
+    // Tap the left third to go back, anywhere else to go forward
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (e.clientX - rect.left < rect.width / 3) {
+      goToPrevious();
+    } else {
+      goToNext();
+    }
+  };
+
+  const openViewers = async () => {
+    if (!story) return;
+    setViewersOpen(true);
+    setLoadingViewers(true);
+    try {
+      const { data, error } = await supabase
+        .from("story_views")
+        .select("viewed_at, profiles (username, avatar_url)")
+        .eq("story_id", story.id)
+        .order("viewed_at", { ascending: false });
+
+      if (error) throw error;
+      setViewers((data as unknown as StoryView[]) || []);
+    } catch (error) {
+      console.error("Error fetching story viewers:", error);
+    } finally {
+      setLoadingViewers(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md h-[100dvh] sm:h-[90vh] p-0 gap-0 border-0 bg-black text-white overflow-hidden sm:rounded-xl [&>button]:text-white [&>button]:z-20">
+        <DialogTitle className="sr-only">
+          {group ? `${group.user.username}'s story` : "Story"}
+        </DialogTitle>
+
+        {group && story && (
+          <div className="relative h-full w-full">
+            {/* Media */}
+            <div
+              className="absolute inset-0 flex items-center justify-center select-none"
+              onPointerDown={handlePointerDown}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={() => setHolding(false)}
+            >
+              {story.media_type === "image" ? (
+                <img
+                  key={story.id}
+                  src={story.media_url}
+                  alt="Story"
+                  draggable={false}
+                  className="max-h-full w-full object-contain"
+                />
+              ) : (
+                <video
+                  key={story.id}
+                  ref={videoRef}
+                  src={story.media_url}
+                  poster={story.poster_url ?? undefined}
+                  autoPlay
+                  playsInline
+                  onTimeUpdate={(e) =>
+                    setProgress(e.currentTarget.currentTime / (e.currentTarget.duration || 1))
+                  }
+                  onEnded={goToNext}
+                  className="max-h-full w-full object-contain"
+                />
+              )}
+            </div>
+
+            {/* Progress segments and author */}
+            <div className="absolute top-0 left-0 right-0 z-10 p-3 space-y-3 bg-gradient-to-b from-black/60 to-transparent pointer-events-none">
+              <div className="flex gap-1">
+                {group.stories.map((segment, index) => (
+                  <div key={segment.id} className="h-0.5 flex-1 rounded-full bg-white/30 overflow-hidden">
+                    <div
+                      className="h-full bg-white"
+                      style={{
+                        width: `${
+                          index < storyIndex ? 100 : index === storyIndex ? progress * 100 : 0
+                        }%`,
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <Link
+                to={`/u/${group.user.username}`}
+                onClick={() => onOpenChange(false)}
+                className="flex items-center gap-2 pointer-events-auto w-fit"
+              >
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={group.user.avatar_url || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                    {group.user.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="text-sm font-semibold">{group.user.username}</span>
+                <span className="text-xs text-white/70">
+                  {formatDistanceToNow(new Date(story.created_at), { addSuffix: true })}
+                </span>
+              </Link>
+            </div>
+
+            {/* Viewers (author only) */}
+            {isOwnStory && !viewersOpen && (
+              <button
+                type="button"
+                onClick={openViewers}
+                className="absolute bottom-4 left-4 z-10 flex items-center gap-2 text-sm font-semibold"
+              >
+                <Eye className="h-4 w-4" />
+                Seen by
+              </button>
+            )}
+
+            {viewersOpen && (
+              <div className="absolute bottom-0 left-0 right-0 z-20 max-h-[60%] rounded-t-xl bg-background text-foreground">
+                <div className="flex items-center justify-between border-b border-border p-4">
+                  <p className="font-semibold">
+                    {viewers.length} {viewers.length === 1 ? "viewer" : "viewers"}
+                  </p>
+                  <button type="button" onClick={() => setViewersOpen(false)}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Close viewers</span>
+                  </button>
+                </div>
+                <ScrollArea className="h-64">
+                  {loadingViewers ? (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  ) : viewers.length === 0 ? (
+                    <p className="py-6 text-center text-sm text-muted-foreground">
+                      No one has seen this story yet
+                    </p>
+                  ) : (
+                    <div className="p-2">
+                      {viewers.map((viewer) => (
+                        <Link
+                          key={viewer.profiles.username}
+                          to={`/u/${viewer.profiles.username}`}
+                          onClick={() => onOpenChange(false)}
+                          className="flex items-center gap-3 rounded-md p-2 hover:bg-muted"
+                        >
+                          <Avatar className="h-9 w-9">
+                            <AvatarImage src={viewer.profiles.avatar_url || undefined} />
+                            <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                              {viewer.profiles.username[0].toUpperCase()}
+                            </AvatarFallback>
+                          </Avatar>
+                          <div className="flex-1">
+                            <p className="text-sm font-semibold">{viewer.profiles.username}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {formatDistanceToNow(new Date(viewer.viewed_at), { addSuffix: true })}
+                            </p>
+                          </div>
+                        </Link>
+                      ))}
+                    </div>
+                  )}
+                </ScrollArea>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StoryViewer;
@@ -0,0 +1,23 @@
+import * as React from "react";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type NotificationRow = Tables<"notifications">;
+export type NotificationListener = (notification: NotificationRow) => void;
+
+interface NotificationsContextValue {
+  unreadCount: number;
+  markAsRead: (ids: string[]) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+  // Subscribe to notifications as they arrive; returns an unsubscribe function
+  subscribe: (listener: NotificationListener) => () => void;
+}
+
+export const NotificationsContext = React.createContext<NotificationsContextValue | null>(null);
+
+export function useNotifications() {
+  const context = React.useContext(NotificationsContext);
+  if (!context) {
+    throw new Error("useNotifications must be used within a NotificationsProvider.");
+  }
+  return context;
+}
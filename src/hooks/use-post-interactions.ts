@@ -0,0 +1,136 @@
+import * as React from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface InteractivePost {
+  id: string;
+  user_id: string;
+  likes: { id: string }[];
+}
+
+// Like, save and share state for a single post, shared by the feed card
+// and the reels player.
+export function usePostInteractions(post: InteractivePost) {
+  const [isLiked, setIsLiked] = React.useState(false);
+  const [isSaved, setIsSaved] = React.useState(false);
+  const [likesCount, setLikesCount] = React.useState(post.likes.length);
+  const [currentUserId, setCurrentUserId] = React.useState<string | null>(null);
+
+  const checkUserInteractions = React.useCallback(async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setCurrentUserId(user.id);
+
+    // Check if user liked the post
+    const { data: likeData } = await supabase
+      .from("likes")
+      .select("id")
+      .eq("post_id", post.id)
+      .eq("user_id", user.id)
+      .single();
+
+    setIsLiked(!!likeData);
+
+    // Check if user saved the post
+    const { data: saveData } = await supabase
+      .from("saves")
+      .select("id")
+      .eq("post_id", post.id)
+      .eq("user_id", user.id)
+      .single();
+
+    setIsSaved(!!saveData);
+  }, [post.id]);
+
+  React.useEffect(() => {
+    checkUserInteractions();
+  }, [checkUserInteractions]);
+
+  const toggleLike = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      if (isLiked) {
+        await supabase
+          .from("likes")
+          .delete()
+          .eq("post_id", post.id)
+          .eq("user_id", user.id);
+        setLikesCount(likesCount - 1);
+      } else {
+        await supabase
+          .from("likes")
+          .insert({ post_id: post.id, user_id: user.id });
+        setLikesCount(likesCount + 1);
+      }
+      setIsLiked(!isLiked);
+    } catch (error) {
+      toast.error("Failed to update like");
+    }
+  };
+
+  const toggleSave = async () => {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    try {
+      if (isSaved) {
+        await supabase
+          .from("saves")
+          .delete()
+          .eq("post_id", post.id)
+          .eq("user_id", user.id);
+      } else {
+        await supabase
+          .from("saves")
+          .insert({ post_id: post.id, user_id: user.id });
+        toast.success("Post saved");
+      }
+      setIsSaved(!isSaved);
+    } catch (error) {
+      toast.error("Failed to save post");
+    }
+  };
+
+  const postUrl = `${window.location.origin}/p/${post.id}`;
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(postUrl);
+      toast.success("Link copied to clipboard");
+    } catch (error) {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  const share = async () => {
+    if (navigator.share) {
+      try {
+        await navigator.share({ url: postUrl });
+      } catch (error) {
+        // User dismissed the share sheet
+      }
+      return;
+    }
+    await copyLink();
+  };
+
+  return {
+    currentUserId,
+    isLiked,
+    isSaved,
+    likesCount,
+    toggleLike,
+    toggleSave,
+    copyLink,
+    share,
+  };
+}
@@ -0,0 +1,63 @@
+import * as React from "react";
+
+const MAX_RECENT_SEARCHES = 10;
+
+export type RecentSearch =
+  | { type: "user"; value: string; label: string }
+  | { type: "hashtag"; value: string; label: string }
+  | { type: "location"; value: string; label: string };
+
+const storageKey = (userId: string) => `recent-searches:${userId}`;
+
+export function useRecentSearches(userId: string | null) {
+  const [recentSearches, setRecentSearches] = React.useState<RecentSearch[]>([]);
+
+  React.useEffect(() => {
+    if (!userId) {
+      setRecentSearches([]);
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(storageKey(userId));
+      setRecentSearches(stored ? JSON.parse(stored) : []);
+    } catch {
+      setRecentSearches([]);
+    }
+  }, [userId]);
+
+  const persist = React.useCallback(
+    (searches: RecentSearch[]) => {
+      setRecentSearches(searches);
+      if (userId) {
+        localStorage.setItem(storageKey(userId), JSON.stringify(searches));
+      }
+    },
+    [userId],
+  );
+
+  const addRecentSearch = React.useCallback(
+    (search: RecentSearch) => {
+      const rest = recentSearches.filter(
+        (item) => !(item.type === search.type && item.value === search.value),
+      );
+      persist([search, ...rest].slice(0, MAX_RECENT_SEARCHES));
+    },
+    [persist, recentSearches],
+  );
+
+  const removeRecentSearch = React.useCallback(
+    (search: RecentSearch) => {
+      persist(
+        recentSearches.filter(
+          (item) => !(item.type === search.type && item.value === search.value),
+        ),
+      );
+    },
+    [persist, recentSearches],
+  );
+
+  const clearRecentSearches = React.useCallback(() => persist([]), [persist]);
+
+  return { recentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches };
+}
@@ -14,11 +14,48 @@ export type Database = {
   }
   public: {
     Tables: {
+      blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+          id: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+          id?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blocks_blocked_id_fkey"
+            columns: ["blocked_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blocks_blocker_id_fkey"
+            columns: ["blocker_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       comments: {
         Row: {
           content: string
           created_at: string
           id: string
+          parent_id: string | null
           post_id: string
           updated_at: string
           user_id: string
@@ -27,6 +64,7 @@ export type Database = {
           content: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           post_id: string
           updated_at?: string
           user_id: string
@@ -35,11 +73,19 @@ export type Database = {
           content?: string
           created_at?: string
           id?: string
+          parent_id?: string | null
           post_id?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "comments_post_id_fkey"
             columns: ["post_id"]
@@ -49,6 +95,113 @@ export type Database = {
           },
         ]
       }
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          joined_at: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_group: boolean
+          title: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          title?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          title?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      follow_requests: {
+        Row: {
+          created_at: string
+          id: string
+          requester_id: string
+          target_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requester_id: string
+          target_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requester_id?: string
+          target_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follow_requests_requester_id_fkey"
+            columns: ["requester_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follow_requests_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       follows: {
         Row: {
           created_at: string
@@ -120,6 +273,239 @@ export type Database = {
           },
         ]
       }
+      messages: {
+        Row: {
+          content: string | null
+          conversation_id: string
+          created_at: string
+          id: string
+          sender_id: string
+          shared_post_id: string | null
+        }
+        Insert: {
+          content?: string | null
+          conversation_id: string
+          created_at?: string
+          id?: string
+          sender_id: string
+          shared_post_id?: string | null
+        }
+        Update: {
+          content?: string | null
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+          shared_post_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_shared_post_id_fkey"
+            columns: ["shared_post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_actions: {
+        Row: {
+          action: string
+          admin_id: string | null
+          created_at: string
+          id: string
+          report_id: string | null
+          target_id: string | null
+          target_type: string
+          target_user_id: string | null
+        }
+        Insert: {
+          action: string
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          report_id?: string | null
+          target_id?: string | null
+          target_type: string
+          target_user_id?: string | null
+        }
+        Update: {
+          action?: string
+          admin_id?: string | null
+          created_at?: string
+          id?: string
+          report_id?: string | null
+          target_id?: string | null
+          target_type?: string
+          target_user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "moderation_actions_admin_id_fkey"
+            columns: ["admin_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "moderation_actions_target_user_id_fkey"
+            columns: ["target_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mutes: {
+        Row: {
+          created_at: string
+          id: string
+          muted_user_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          muted_user_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          muted_user_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mutes_muted_user_id_fkey"
+            columns: ["muted_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_mutes: {
+        Row: {
+          created_at: string
+          id: string
+          muted_user_id: string | null
+          post_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          muted_user_id?: string | null
+          post_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          muted_user_id?: string | null
+          post_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_mutes_muted_user_id_fkey"
+            columns: ["muted_user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_mutes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_mutes_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          comments_enabled: boolean
+          follows_enabled: boolean
+          likes_enabled: boolean
+          mentions_enabled: boolean
+          only_following: boolean
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          comments_enabled?: boolean
+          follows_enabled?: boolean
+          likes_enabled?: boolean
+          mentions_enabled?: boolean
+          only_following?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          comments_enabled?: boolean
+          follows_enabled?: boolean
+          likes_enabled?: boolean
+          mentions_enabled?: boolean
+          only_following?: boolean
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           actor_id: string
@@ -128,6 +514,7 @@ export type Database = {
           id: string
           is_read: boolean
           post_id: string | null
+          silent: boolean
           type: string
           user_id: string
         }
@@ -138,6 +525,7 @@ export type Database = {
           id?: string
           is_read?: boolean
           post_id?: string | null
+          silent?: boolean
           type: string
           user_id: string
         }
@@ -148,6 +536,7 @@ export type Database = {
           id?: string
           is_read?: boolean
           post_id?: string | null
+          silent?: boolean
           type?: string
           user_id?: string
         }
@@ -198,36 +587,110 @@ export type Database = {
           },
         ]
       }
+      post_media: {
+        Row: {
+          blurhash: string | null
+          created_at: string
+          duration: number | null
+          height: number | null
+          id: string
+          media_type: string
+          media_url: string
+          position: number
+          post_id: string
+          poster_url: string | null
+          variants: Json | null
+          width: number | null
+        }
+        Insert: {
+          blurhash?: string | null
+          created_at?: string
+          duration?: number | null
+          height?: number | null
+          id?: string
+          media_type: string
+          media_url: string
+          position: number
+          post_id: string
+          poster_url?: string | null
+          variants?: Json | null
+          width?: number | null
+        }
+        Update: {
+          blurhash?: string | null
+          created_at?: string
+          duration?: number | null
+          height?: number | null
+          id?: string
+          media_type?: string
+          media_url?: string
+          position?: number
+          post_id?: string
+          poster_url?: string | null
+          variants?: Json | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_media_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       posts: {
         Row: {
+          aspect_ratio: number
+          blurhash: string | null
           caption: string | null
           created_at: string
+          duration: number | null
+          height: number | null
           id: string
           location: string | null
           media_type: string
           media_url: string
+          media_variants: Json | null
+          poster_url: string | null
           updated_at: string
           user_id: string
+          width: number | null
         }
         Insert: {
+          aspect_ratio?: number
+          blurhash?: string | null
           caption?: string | null
           created_at?: string
+          duration?: number | null
+          height?: number | null
           id?: string
           location?: string | null
           media_type: string
           media_url: string
+          media_variants?: Json | null
+          poster_url?: string | null
           updated_at?: string
           user_id: string
+          width?: number | null
         }
         Update: {
+          aspect_ratio?: number
+          blurhash?: string | null
           caption?: string | null
           created_at?: string
+          duration?: number | null
+          height?: number | null
           id?: string
           location?: string | null
           media_type?: string
           media_url?: string
+          media_variants?: Json | null
+          poster_url?: string | null
           updated_at?: string
           user_id?: string
+          width?: number | null
         }
         Relationships: []
       }
@@ -238,6 +701,8 @@ export type Database = {
           created_at: string
           full_name: string | null
           id: string
+          is_private: boolean
+          suspended_at: string | null
           updated_at: string
           username: string
           website: string | null
@@ -248,6 +713,8 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id: string
+          is_private?: boolean
+          suspended_at?: string | null
           updated_at?: string
           username: string
           website?: string | null
@@ -258,12 +725,126 @@ export type Database = {
           created_at?: string
           full_name?: string | null
           id?: string
+          is_private?: boolean
+          suspended_at?: string | null
           updated_at?: string
           username?: string
           website?: string | null
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reports: {
+        Row: {
+          comment_id: string | null
+          created_at: string
+          details: string | null
+          id: string
+          post_id: string | null
+          profile_id: string | null
+          reason: string
+          reporter_id: string | null
+          resolved_at: string | null
+          status: string
+          target_type: string
+        }
+        Insert: {
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          post_id?: string | null
+          profile_id?: string | null
+          reason: string
+          reporter_id?: string | null
+          resolved_at?: string | null
+          status?: string
+          target_type: string
+        }
+        Update: {
+          comment_id?: string | null
+          created_at?: string
+          details?: string | null
+          id?: string
+          post_id?: string | null
+          profile_id?: string | null
+          reason?: string
+          reporter_id?: string | null
+          resolved_at?: string | null
+          status?: string
+          target_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       saves: {
         Row: {
           created_at: string
@@ -293,6 +874,83 @@ export type Database = {
           },
         ]
       }
+      stories: {
+        Row: {
+          created_at: string
+          duration: number | null
+          expires_at: string
+          id: string
+          media_type: string
+          media_url: string
+          poster_url: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duration?: number | null
+          expires_at?: string
+          id?: string
+          media_type: string
+          media_url: string
+          poster_url?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duration?: number | null
+          expires_at?: string
+          id?: string
+          media_type?: string
+          media_url?: string
+          poster_url?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stories_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      story_views: {
+        Row: {
+          id: string
+          story_id: string
+          viewed_at: string
+          viewer_id: string
+        }
+        Insert: {
+          id?: string
+          story_id: string
+          viewed_at?: string
+          viewer_id: string
+        }
+        Update: {
+          id?: string
+          story_id?: string
+          viewed_at?: string
+          viewer_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "story_views_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "stories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "story_views_viewer_id_fkey"
+            columns: ["viewer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -319,6 +977,183 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_follow_request: {
+        Args: {
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      can_view_profile_content: {
+        Args: {
+          _owner_id: string
+        }
+        Returns: boolean
+      }
+      count_user_posts: {
+        Args: {
+          _user_id: string
+        }
+        Returns: number
+      }
+      create_conversation: {
+        Args: {
+          _participant_ids: string[]
+          _title?: string
+        }
+        Returns: string
+      }
+      extract_hashtags: {
+        Args: {
+          _text: string
+        }
+        Returns: string[]
+      }
+      extract_mentions: {
+        Args: {
+          _text: string
+        }
+        Returns: string[]
+      }
+      get_blocked_accounts: {
+        Args: never
+        Returns: {
+          avatar_url: string | null
+          block_id: string
+          blocked_at: string
+          full_name: string | null
+          id: string
+          username: string
+        }[]
+      }
+      get_follow_list: {
+        Args: {
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _limit?: number
+          _list: string
+          _search?: string
+          _user_id: string
+        }
+        Returns: {
+          avatar_url: string | null
+          follow_id: string
+          followed_at: string
+          full_name: string | null
+          id: string
+          is_followed_by_viewer: boolean
+          is_private: boolean
+          is_requested_by_viewer: boolean
+          username: string
+        }[]
+      }
+      get_home_feed: {
+        Args: {
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _limit?: number
+        }
+        Returns: {
+          aspect_ratio: number
+          blurhash: string | null
+          caption: string | null
+          created_at: string
+          duration: number | null
+          height: number | null
+          id: string
+          location: string | null
+          media_type: string
+          media_url: string
+          media_variants: Json | null
+          poster_url: string | null
+          updated_at: string
+          user_id: string
+          width: number | null
+        }[]
+      }
+      get_inbox: {
+        Args: never
+        Returns: {
+          id: string
+          is_group: boolean
+          last_message_at: string | null
+          last_message_content: string | null
+          last_message_sender_id: string | null
+          last_message_shared_post: boolean | null
+          participants: Json
+          title: string | null
+          unread_count: number
+          updated_at: string
+        }[]
+      }
+      get_notification_groups: {
+        Args: {
+          _cursor_key?: string
+          _cursor_latest_at?: string
+          _limit?: number
+        }
+        Returns: {
+          actor_count: number
+          actors: Json
+          comment_id: string | null
+          group_key: string
+          is_read: boolean
+          latest_at: string
+          notification_ids: string[]
+          post: Json | null
+          post_id: string | null
+          type: string
+        }[]
+      }
+      get_open_reports: {
+        Args: {
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _limit?: number
+        }
+        Returns: {
+          author_avatar_url: string | null
+          author_id: string | null
+          author_suspended_at: string | null
+          author_username: string | null
+          blurhash: string | null
+          comment_id: string | null
+          content: string | null
+          created_at: string
+          details: string | null
+          id: string
+          media_url: string | null
+          media_variants: Json | null
+          post_id: string | null
+          poster_url: string | null
+          reason: string
+          reporter_username: string | null
+          target_type: string
+        }[]
+      }
+      get_reels_feed: {
+        Args: {
+          _cursor_created_at?: string
+          _cursor_id?: string
+          _limit?: number
+        }
+        Returns: {
+          aspect_ratio: number
+          blurhash: string | null
+          caption: string | null
+          created_at: string
+          duration: number | null
+          height: number | null
+          id: string
+          location: string | null
+          media_type: string
+          media_url: string
+          media_variants: Json | null
+          poster_url: string | null
+          updated_at: string
+          user_id: string
+          width: number | null
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -326,6 +1161,48 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_blocked_between: {
+        Args: {
+          _user_a: string
+          _user_b: string
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: {
+          _conversation_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_suspended: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      moderate_report: {
+        Args: {
+          _action: string
+          _report_id: string
+        }
+        Returns: undefined
+      }
+      register_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: undefined
+      }
+      unsuspend_user: {
+        Args: {
+          _user_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -0,0 +1,33 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const BUCKET = "avatars";
+
+// Avatars display at 128px at most, so this covers high-density screens
+export const AVATAR_SIZE = 320;
+
+// Each upload gets a new name so cached copies of the old avatar never linger
+export async function uploadAvatar(userId: string, blob: Blob) {
+  const path = `${userId}/${Date.now()}.jpg`;
+  const { error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, blob, { contentType: "image/jpeg" });
+
+  if (error) throw error;
+  return { path, url: supabase.storage.from(BUCKET).getPublicUrl(path).data.publicUrl };
+}
+
+// Storage path of an avatar hosted in our bucket, or null for anything else
+// (e.g. a provider avatar copied from sign-up metadata)
+export function getAvatarPath(url: string | null) {
+  if (!url) return null;
+
+  const marker = `/storage/v1/object/public/${BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split("?")[0]);
+}
+
+export async function removeAvatar(path: string) {
+  const { error } = await supabase.storage.from(BUCKET).remove([path]);
+  if (error) throw error;
+}
@@ -0,0 +1,40 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Blocking also removes follows in both directions and hides the two
+// accounts from each other
+export async function blockUser(currentUserId: string, targetId: string) {
+  const { error } = await supabase
+    .from("blocks")
+    .insert({ blocker_id: currentUserId, blocked_id: targetId });
+
+  // Already blocked
+  if (error && error.code !== "23505") throw error;
+}
+
+export async function unblockUser(currentUserId: string, targetId: string) {
+  const { error } = await supabase
+    .from("blocks")
+    .delete()
+    .eq("blocker_id", currentUserId)
+    .eq("blocked_id", targetId);
+  if (error) throw error;
+}
+
+// Muted accounts drop out of the home feed without being told
+export async function muteUser(currentUserId: string, targetId: string) {
+  const { error } = await supabase
+    .from("mutes")
+    .insert({ user_id: currentUserId, muted_user_id: targetId });
+
+  // Already muted
+  if (error && error.code !== "23505") throw error;
+}
+
+export async function unmuteUser(currentUserId: string, targetId: string) {
+  const { error } = await supabase
+    .from("mutes")
+    .delete()
+    .eq("user_id", currentUserId)
+    .eq("muted_user_id", targetId);
+  if (error) throw error;
+}
@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// The viewer's relationship with another account
+export type FollowStatus = "none" | "following" | "requested";
+
+// Follow a public account, or ask to follow a private one
+export async function followUser(
+  currentUserId: string,
+  target: { id: string; is_private: boolean }
+): Promise<FollowStatus> {
+  if (target.is_private) {
+    const { error } = await supabase
+      .from("follow_requests")
+      .insert({ requester_id: currentUserId, target_id: target.id });
+    if (error) throw error;
+    return "requested";
+  }
+
+  const { error } = await supabase
+    .from("follows")
+    .insert({ follower_id: currentUserId, following_id: target.id });
+  if (error) throw error;
+  return "following";
+}
+
+// Unfollow, or withdraw a pending request
+export async function unfollowUser(
+  currentUserId: string,
+  targetId: string,
+  status: FollowStatus
+): Promise<FollowStatus> {
+  const { error } =
+    status === "requested"
+      ? await supabase
+          .from("follow_requests")
+          .delete()
+          .eq("requester_id", currentUserId)
+          .eq("target_id", targetId)
+      : await supabase
+          .from("follows")
+          .delete()
+          .eq("follower_id", currentUserId)
+          .eq("following_id", targetId);
+
+  if (error) throw error;
+  return "none";
+}
@@ -0,0 +1,3 @@
+// Mirrors public.extract_hashtags() so the client links exactly the tags the
+// database indexes.
+export const HASHTAG_PATTERN = /#([\p{L}\p{N}_]{1,100})/gu;
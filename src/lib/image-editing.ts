@@ -0,0 +1,120 @@
+export const ASPECT_RATIOS = [
+  { label: "1:1", value: 1 },
+  { label: "4:5", value: 4 / 5 },
+  { label: "1.91:1", value: 1.91 },
+] as const;
+
+export const FILTERS = [
+  { name: "Normal", css: "" },
+  { name: "Clarendon", css: "contrast(1.2) saturate(1.35)" },
+  { name: "Gingham", css: "brightness(1.05) hue-rotate(-10deg) saturate(0.9)" },
+  { name: "Moon", css: "grayscale(1) contrast(1.1) brightness(1.1)" },
+  { name: "Lark", css: "contrast(0.9) brightness(1.1) saturate(1.1)" },
+  { name: "Juno", css: "sepia(0.2) contrast(1.15) saturate(1.4)" },
+  { name: "Aden", css: "sepia(0.2) brightness(1.15) saturate(0.85) hue-rotate(-20deg)" },
+] as const;
+
+export type FilterName = (typeof FILTERS)[number]["name"];
+
+export interface ImageEdits {
+  zoom: number;
+  // Pan within the area left over after covering the frame, from -1 to 1
+  offsetX: number;
+  offsetY: number;
+  filter: FilterName;
+  brightness: number;
+  contrast: number;
+}
+
+export const DEFAULT_EDITS: ImageEdits = {
+  zoom: 1,
+  offsetX: 0,
+  offsetY: 0,
+  filter: "Normal",
+  brightness: 100,
+  contrast: 100,
+};
+
+// Longest edge of the uploaded image
+const OUTPUT_SIZE = 1080;
+
+export function getFilterCss(edits: ImageEdits) {
+  const preset = FILTERS.find((filter) => filter.name === edits.filter)?.css ?? "";
+  return `${preset} brightness(${edits.brightness}%) contrast(${edits.contrast}%)`.trim();
+}
+
+// Geometry of the image drawn into a width x height frame
+export function getImagePlacement(
+  image: HTMLImageElement,
+  edits: ImageEdits,
+  width: number,
+  height: number
+) {
+  const scale =
+    Math.max(width / image.naturalWidth, height / image.naturalHeight) * edits.zoom;
+  const drawWidth = image.naturalWidth * scale;
+  const drawHeight = image.naturalHeight * scale;
+  const maxPanX = (drawWidth - width) / 2;
+  const maxPanY = (drawHeight - height) / 2;
+
+  return {
+    x: (width - drawWidth) / 2 + edits.offsetX * maxPanX,
+    y: (height - drawHeight) / 2 + edits.offsetY * maxPanY,
+    drawWidth,
+    drawHeight,
+    maxPanX,
+    maxPanY,
+  };
+}
+
+export function drawEditedImage(
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  edits: ImageEdits,
+  width: number,
+  height: number
+) {
+  const { x, y, drawWidth, drawHeight } = getImagePlacement(image, edits, width, height);
+
+  ctx.clearRect(0, 0, width, height);
+  ctx.filter = getFilterCss(edits) || "none";
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+  ctx.filter = "none";
+}
+
+export function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Failed to load image"));
+    image.src = src;
+  });
+}
+
+// Render the cropped, filtered image at upload resolution
+export async function renderEditedImage(
+  src: string,
+  edits: ImageEdits,
+  aspectRatio: number,
+  outputSize = OUTPUT_SIZE
+) {
+  const image = await loadImage(src);
+  const width = aspectRatio >= 1 ? outputSize : Math.round(outputSize * aspectRatio);
+  const height = aspectRatio >= 1 ? Math.round(outputSize / aspectRatio) : outputSize;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  drawEditedImage(ctx, image, edits, width, height);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to render image"))),
+      "image/jpeg",
+      0.9
+    );
+  });
+}
@@ -0,0 +1,113 @@
+import { encode } from "blurhash";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface MediaVariant {
+  width: number;
+  url: string;
+}
+
+// Widths generated for every uploaded image, smallest first
+export const VARIANT_WIDTHS = [320, 640, 1080];
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      type,
+      quality
+    );
+  });
+
+const drawScaled = (bitmap: ImageBitmap, width: number) => {
+  const height = Math.round((bitmap.height / bitmap.width) * width);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported in this browser");
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return { canvas, ctx, height };
+};
+
+// Downscaled WebP copies of an image. Widths larger than the source are
+// skipped, except that the smallest one is always produced.
+export async function createImageVariants(source: Blob) {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const widths = VARIANT_WIDTHS.filter(
+      (width, index) => index === 0 || width <= bitmap.width
+    );
+
+    return await Promise.all(
+      widths.map(async (width) => {
+        const { canvas } = drawScaled(bitmap, Math.min(width, bitmap.width));
+        return { width, blob: await toBlob(canvas, "image/webp", 0.8) };
+      })
+    );
+  } finally {
+    bitmap.close();
+  }
+}
+
+export async function encodeBlurhash(source: Blob) {
+  const bitmap = await createImageBitmap(source);
+  try {
+    const { ctx, height } = drawScaled(bitmap, 32);
+    const { data } = ctx.getImageData(0, 0, 32, height);
+    return encode(data, 32, height, 4, 3);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export interface UploadedVariants {
+  variants: MediaVariant[];
+  paths: string[];
+  blurhash: string;
+}
+
+// Generate and upload the variants for an image stored at `${basePath}.<ext>`.
+// Variants are written next to it as `${basePath}_<width>.webp`.
+export async function uploadImageVariants(
+  bucket: string,
+  basePath: string,
+  source: Blob
+): Promise<UploadedVariants> {
+  const [generated, blurhash] = await Promise.all([
+    createImageVariants(source),
+    encodeBlurhash(source),
+  ]);
+
+  const variants: MediaVariant[] = [];
+  const paths: string[] = [];
+  for (const { width, blob } of generated) {
+    const path = `${basePath}_${width}.webp`;
+    const { error } = await supabase.storage.from(bucket).upload(path, blob, {
+      contentType: "image/webp",
+      cacheControl: "31536000",
+      upsert: true,
+    });
+    if (error) throw error;
+
+    paths.push(path);
+    variants.push({
+      width,
+      url: supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl,
+    });
+  }
+
+  return { variants, paths, blurhash };
+}
+
+export function parseVariants(value: Json | MediaVariant[] | null | undefined): MediaVariant[] {
+  if (!Array.isArray(value)) return [];
+  return (value as unknown as MediaVariant[]).filter(
+    (variant) => typeof variant?.width === "number" && typeof variant?.url === "string"
+  );
+}
+
+export function buildSrcSet(variants: MediaVariant[]) {
+  return variants.map((variant) => `${variant.url} ${variant.width}w`).join(", ");
+}
@@ -0,0 +1,24 @@
+export const ACCEPTED_MEDIA_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "video/mp4",
+  "video/quicktime",
+];
+
+export const MAX_MEDIA_SIZE_MB = 50;
+
+// Returns a user-facing error for files we can't accept, or null
+export function validateMediaFile(file: File) {
+  // Validate file type
+  if (!ACCEPTED_MEDIA_TYPES.includes(file.type)) {
+    return `${file.name} is not a valid image or video file`;
+  }
+
+  // Validate file size
+  if (file.size > MAX_MEDIA_SIZE_MB * 1024 * 1024) {
+    return `${file.name} must be less than ${MAX_MEDIA_SIZE_MB}MB`;
+  }
+
+  return null;
+}
@@ -0,0 +1,5 @@
+// Usernames following an "@" that isn't part of a word or email address.
+// Trailing dots are left out so "thanks @alice." mentions "alice".
+// Mention notifications are sent by the database, which uses the same rule
+// in public.extract_mentions.
+export const MENTION_PATTERN = /(?<![\w@])@(\w(?:[\w.]{0,28}\w)?)/g;
@@ -0,0 +1,66 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Participant {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export interface InboxConversation {
+  id: string;
+  title: string | null;
+  is_group: boolean;
+  updated_at: string;
+  participants: Participant[];
+  last_message_content: string | null;
+  last_message_sender_id: string | null;
+  last_message_shared_post: boolean | null;
+  last_message_at: string | null;
+  unread_count: number;
+}
+
+export async function fetchInbox() {
+  const { data, error } = await supabase.rpc("get_inbox");
+  if (error) throw error;
+  return (data as unknown as InboxConversation[]) || [];
+}
+
+// Returns the existing one-to-one conversation with a single user, or a
+// new conversation with everyone given
+export async function createConversation(participantIds: string[], title?: string) {
+  const { data, error } = await supabase.rpc("create_conversation", {
+    _participant_ids: participantIds,
+    _title: title,
+  });
+  if (error) throw error;
+  return data;
+}
+
+export async function sendMessage({
+  conversationId,
+  senderId,
+  content,
+  sharedPostId,
+}: {
+  conversationId: string;
+  senderId: string;
+  content?: string;
+  sharedPostId?: string;
+}) {
+  const { error } = await supabase.from("messages").insert({
+    conversation_id: conversationId,
+    sender_id: senderId,
+    content: content?.trim() || null,
+    shared_post_id: sharedPostId ?? null,
+  });
+  if (error) throw error;
+}
+
+export function getConversationName(conversation: {
+  title: string | null;
+  participants: Participant[];
+}) {
+  if (conversation.title) return conversation.title;
+  if (conversation.participants.length === 0) return "Just you";
+  return conversation.participants.map((participant) => participant.username).join(", ");
+}
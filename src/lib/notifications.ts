@@ -0,0 +1,60 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Text following the actor's username, e.g. "liked your post"
+export function getNotificationAction(type: string, commentId?: string | null) {
+  switch (type) {
+    case "like":
+      return "liked your post";
+    case "comment":
+      return "commented on your post";
+    case "follow":
+      return "started following you";
+    case "follow_request_accepted":
+      return "accepted your follow request";
+    case "mention":
+      return commentId ? "mentioned you in a comment" : "mentioned you in a post";
+    default:
+      return "interacted with your content";
+  }
+}
+
+export async function markNotificationsAsRead(ids: string[]) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ is_read: true })
+    .in("id", ids)
+    .eq("is_read", false);
+  if (error) throw error;
+}
+
+export interface NotificationActor {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+// "alice", "alice and bob", "alice, bob and 23 others"
+export function formatActorNames(actors: NotificationActor[], actorCount: number) {
+  const [first, second] = actors;
+  if (!first) return "Someone";
+  if (actorCount <= 1 || !second) return first.username;
+  if (actorCount === 2) return `${first.username} and ${second.username}`;
+
+  const others = actorCount - 2;
+  return `${first.username}, ${second.username} and ${others} ${others === 1 ? "other" : "others"}`;
+}
+
+export type NotificationMuteTarget = { postId: string } | { mutedUserId: string };
+
+// Stop notifications about a post or from an account. Muting something
+// twice is a no-op.
+export async function muteNotifications(userId: string, target: NotificationMuteTarget) {
+  const { error } = await supabase.from("notification_mutes").insert({
+    user_id: userId,
+    post_id: "postId" in target ? target.postId : null,
+    muted_user_id: "mutedUserId" in target ? target.mutedUserId : null,
+  });
+  if (error && error.code !== "23505") throw error;
+}
@@ -0,0 +1,68 @@
+import { supabase } from "@/integrations/supabase/client";
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+// Push also needs a VAPID key, so deployments without one hide the option
+export function isPushSupported() {
+  return (
+    Boolean(VAPID_PUBLIC_KEY) &&
+    "serviceWorker" in navigator &&
+    "PushManager" in window &&
+    "Notification" in window
+  );
+}
+
+// VAPID keys are shared as base64url but the browser wants raw bytes
+function urlBase64ToUint8Array(base64: string) {
+  const padded = (base64 + "=".repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, "+")
+    .replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+}
+
+// This device's subscription, if push has been enabled here
+export async function getPushSubscription() {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+export async function subscribeToPush() {
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site");
+  }
+
+  const registration = await navigator.serviceWorker.register("/sw.js");
+  await navigator.serviceWorker.ready;
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY!),
+    }));
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase.rpc("register_push_subscription", {
+    _endpoint: endpoint!,
+    _p256dh: keys!.p256dh,
+    _auth: keys!.auth,
+    _user_agent: navigator.userAgent,
+  });
+  if (error) throw error;
+}
+
+export async function unsubscribeFromPush() {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .delete()
+    .eq("endpoint", subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,60 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const REPORT_REASONS = [
+  { value: "spam", label: "Spam" },
+  { value: "nudity", label: "Nudity or sexual content" },
+  { value: "harassment", label: "Bullying or harassment" },
+  { value: "hate_speech", label: "Hate speech or symbols" },
+  { value: "violence", label: "Violence or dangerous content" },
+  { value: "false_information", label: "False information" },
+  { value: "other", label: "Something else" },
+] as const;
+
+export type ReportReason = (typeof REPORT_REASONS)[number]["value"];
+
+export type ReportTargetType = "post" | "comment" | "profile";
+
+export interface ReportTarget {
+  type: ReportTargetType;
+  id: string;
+}
+
+export type ModerationAction = "dismiss" | "delete_content" | "suspend_user";
+
+// Everything written to the audit log, including lifting a suspension
+export type AuditAction = ModerationAction | "unsuspend_user";
+
+export function getReportReasonLabel(reason: string) {
+  return REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+}
+
+export async function submitReport(
+  reporterId: string,
+  target: ReportTarget,
+  reason: ReportReason,
+  details?: string
+) {
+  const { error } = await supabase.from("reports").insert({
+    reporter_id: reporterId,
+    target_type: target.type,
+    post_id: target.type === "post" ? target.id : null,
+    comment_id: target.type === "comment" ? target.id : null,
+    profile_id: target.type === "profile" ? target.id : null,
+    reason,
+    details: details?.trim() || null,
+  });
+  if (error) throw error;
+}
+
+export async function moderateReport(reportId: string, action: ModerationAction) {
+  const { error } = await supabase.rpc("moderate_report", {
+    _report_id: reportId,
+    _action: action,
+  });
+  if (error) throw error;
+}
+
+export async function unsuspendUser(userId: string) {
+  const { error } = await supabase.rpc("unsuspend_user", { _user_id: userId });
+  if (error) throw error;
+}
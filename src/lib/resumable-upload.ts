@@ -0,0 +1,86 @@
+import * as tus from "tus-js-client";
+import { supabase } from "@/integrations/supabase/client";
+
+// Supabase Storage only accepts TUS chunks of exactly 6MB
+const CHUNK_SIZE = 6 * 1024 * 1024;
+
+interface ResumableUploadOptions {
+  bucket: string;
+  path: string;
+  file: Blob;
+  contentType: string;
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void;
+}
+
+export interface ResumableUpload {
+  promise: Promise<void>;
+  // Stop the upload. When `discard` is true the partial upload is removed
+  // from the server instead of being kept around to resume later.
+  abort: (discard?: boolean) => Promise<void>;
+}
+
+// Upload a file to Supabase Storage over the TUS protocol. Interrupted
+// uploads for the same bucket/path resume from the last completed chunk.
+export function uploadResumable({
+  bucket,
+  path,
+  file,
+  contentType,
+  onProgress,
+}: ResumableUploadOptions): ResumableUpload {
+  let upload: tus.Upload | null = null;
+  let rejectUpload: ((error: Error) => void) | null = null;
+  let aborted = false;
+
+  const promise = new Promise<void>((resolve, reject) => {
+    rejectUpload = reject;
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (aborted) return;
+      if (!session) {
+        reject(new Error("Not authenticated"));
+        return;
+      }
+
+      upload = new tus.Upload(file, {
+        endpoint: `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`,
+        retryDelays: [0, 3000, 5000, 10000, 20000],
+        headers: {
+          authorization: `Bearer ${session.access_token}`,
+          "x-upsert": "false",
+        },
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        chunkSize: CHUNK_SIZE,
+        metadata: {
+          bucketName: bucket,
+          objectName: path,
+          contentType,
+          cacheControl: "3600",
+        },
+        // Edited images are regenerated on every attempt, so key resumption
+        // on the destination rather than the blob itself
+        fingerprint: async () => `tus::${bucket}/${path}`,
+        onProgress: (bytesUploaded, bytesTotal) => onProgress?.(bytesUploaded, bytesTotal),
+        onSuccess: () => resolve(),
+        onError: (error) => reject(error),
+      });
+
+      upload.findPreviousUploads().then((previousUploads) => {
+        if (aborted || !upload) return;
+        if (previousUploads.length > 0) {
+          upload.resumeFromPreviousUpload(previousUploads[0]);
+        }
+        upload.start();
+      }, reject);
+    }, reject);
+  });
+
+  const abort = async (discard = false) => {
+    aborted = true;
+    await upload?.abort(discard);
+    rejectUpload?.(new DOMException("Upload cancelled", "AbortError"));
+  };
+
+  return { promise, abort };
+}
@@ -0,0 +1,89 @@
+export interface VideoMetadata {
+  poster: Blob;
+  duration: number;
+  width: number;
+  height: number;
+}
+
+// Longest edge of the extracted poster frame
+const POSTER_SIZE = 1080;
+
+// Some browsers never fire `loadeddata` or `seeked` for codecs they can't
+// decode, so give up instead of leaving the upload hanging
+const EVENT_TIMEOUT_MS = 10_000;
+
+const waitFor = (video: HTMLVideoElement, event: "loadeddata" | "seeked") =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener(event, onEvent);
+      video.removeEventListener("error", onError);
+    };
+    const onEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = () => {
+      cleanup();
+      reject(new Error("Failed to read video"));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      reject(new Error("Timed out reading video"));
+    }, EVENT_TIMEOUT_MS);
+    video.addEventListener(event, onEvent);
+    video.addEventListener("error", onError);
+  });
+
+// Read duration and dimensions from a video file and grab a JPEG poster
+// frame from just after the start, skipping the black first frame many
+// phones record.
+export async function extractVideoMetadata(file: Blob): Promise<VideoMetadata> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitFor(video, "loadeddata");
+    video.src = url;
+    await loaded;
+
+    const { videoWidth: width, videoHeight: height } = video;
+    const duration = Number.isFinite(video.duration) ? video.duration : 0;
+
+    const seeked = waitFor(video, "seeked");
+    video.currentTime = Math.min(0.5, duration / 2);
+    await seeked;
+
+    const scale = Math.min(1, POSTER_SIZE / Math.max(width, height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("Canvas is not supported in this browser");
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    const poster = await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Failed to capture poster frame"))),
+        "image/jpeg",
+        0.85
+      );
+    });
+
+    return { poster, duration, width, height };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function formatDuration(seconds: number) {
+  const total = Math.round(seconds);
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,572 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import {
+  getReportReasonLabel,
+  moderateReport,
+  unsuspendUser,
+  type AuditAction,
+  type ModerationAction,
+  type ReportTargetType,
+} from "@/lib/reports";
+
+interface OpenReport {
+  id: string;
+  created_at: string;
+  target_type: ReportTargetType;
+  reason: string;
+  details: string | null;
+  reporter_username: string | null;
+  post_id: string | null;
+  comment_id: string | null;
+  author_id: string | null;
+  author_username: string | null;
+  author_avatar_url: string | null;
+  author_suspended_at: string | null;
+  content: string | null;
+  media_url: string | null;
+  poster_url: string | null;
+  media_variants: Json | null;
+  blurhash: string | null;
+}
+
+interface SuspendedAccount {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+  suspended_at: string;
+}
+
+interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  target_type: ReportTargetType;
+  created_at: string;
+  admin: { username: string } | null;
+  target_user: { username: string } | null;
+  report: { reason: string } | null;
+}
+
+const PAGE_SIZE = 20;
+
+// e.g. "deleted a comment by jane"
+const describeAction = (entry: AuditEntry) => {
+  const author = entry.target_user ? ` by ${entry.target_user.username}` : "";
+  switch (entry.action) {
+    case "dismiss":
+      return `dismissed a report on a ${entry.target_type}${author}`;
+    case "delete_content":
+      return `deleted a ${entry.target_type}${author}`;
+    case "suspend_user":
+      return `suspended ${entry.target_user?.username ?? "an account"}`;
+    case "unsuspend_user":
+      return `lifted the suspension on ${entry.target_user?.username ?? "an account"}`;
+  }
+};
+
+// Reports the server closes together when one of them is acted on
+const isSameTarget = (a: OpenReport, b: OpenReport) =>
+  a.target_type === b.target_type &&
+  (a.target_type === "post"
+    ? a.post_id === b.post_id
+    : a.target_type === "comment"
+      ? a.comment_id === b.comment_id
+      : a.author_id === b.author_id);
+
+// The reported content may already have been deleted by its owner
+const isContentGone = (report: OpenReport) =>
+  !report.author_id || (report.target_type !== "profile" && !report.post_id);
+
+const Admin = () => {
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+  const [reports, setReports] = useState<OpenReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [auditLog, setAuditLog] = useState<AuditEntry[]>([]);
+  const [auditLoading, setAuditLoading] = useState(true);
+  const [suspended, setSuspended] = useState<SuspendedAccount[]>([]);
+  const [suspendedLoading, setSuspendedLoading] = useState(true);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+  const [confirming, setConfirming] = useState<{
+    report: OpenReport;
+    action: Exclude<ModerationAction, "dismiss">;
+  } | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+
+  const fetchPage = useCallback(async (cursor?: OpenReport) => {
+    const { data, error } = await supabase.rpc("get_open_reports", {
+      _cursor_created_at: cursor?.created_at,
+      _cursor_id: cursor?.id,
+      _limit: PAGE_SIZE,
+    });
+
+    if (error) throw error;
+    return (data as OpenReport[]) || [];
+  }, []);
+
+  const fetchAuditLog = useCallback(async () => {
+    setAuditLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("moderation_actions")
+        .select(
+          `
+          id,
+          action,
+          target_type,
+          created_at,
+          admin:profiles!moderation_actions_admin_id_fkey (username),
+          target_user:profiles!moderation_actions_target_user_id_fkey (username),
+          report:reports (reason)
+        `
+        )
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setAuditLog((data as unknown as AuditEntry[]) || []);
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+    } finally {
+      setAuditLoading(false);
+    }
+  }, []);
+
+  const fetchSuspended = useCallback(async () => {
+    setSuspendedLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, username, avatar_url, suspended_at")
+        .not("suspended_at", "is", null)
+        .order("suspended_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setSuspended((data as SuspendedAccount[]) || []);
+    } catch (error) {
+      console.error("Error fetching suspended accounts:", error);
+    } finally {
+      setSuspendedLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    const checkAccess = async () => {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+
+        const { data: hasAdminRole, error } = await supabase.rpc("has_role", {
+          _user_id: user.id,
+          _role: "admin",
+        });
+        if (error) throw error;
+        setIsAdmin(!!hasAdminRole);
+        if (!hasAdminRole) return;
+
+        const page = await fetchPage();
+        setReports(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("Error loading moderation queue:", error);
+        setIsAdmin((prev) => prev ?? false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkAccess();
+  }, [fetchPage]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (loading || loadingMore || !hasMore || reports.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(reports[reports.length - 1]);
+      setReports((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching more reports:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, reports, hasMore, loading, loadingMore]);
+
+  // Load the next page when the end of the queue scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (observed) => {
+        if (observed[0].isIntersecting) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "200px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage]);
+
+  const handleAction = async (report: OpenReport, action: ModerationAction) => {
+    setPendingIds((prev) => new Set(prev).add(report.id));
+    try {
+      await moderateReport(report.id, action);
+      setReports((prev) =>
+        prev.filter((r) =>
+          action === "dismiss" ? r.id !== report.id : !isSameTarget(r, report)
+        )
+      );
+      toast.success(
+        action === "dismiss"
+          ? "Report dismissed"
+          : action === "delete_content"
+            ? `${report.target_type === "post" ? "Post" : "Comment"} deleted`
+            : `${report.author_username ?? "Author"} suspended`
+      );
+    } catch (error) {
+      console.error("Error moderating report:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update report");
+    } finally {
+      setPendingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(report.id);
+        return next;
+      });
+    }
+  };
+
+  const handleUnsuspend = async (account: SuspendedAccount) => {
+    setPendingIds((prev) => new Set(prev).add(account.id));
+    try {
+      await unsuspendUser(account.id);
+      setSuspended((prev) => prev.filter((a) => a.id !== account.id));
+      setReports((prev) =>
+        prev.map((r) => (r.author_id === account.id ? { ...r, author_suspended_at: null } : r))
+      );
+      toast.success(`${account.username}'s suspension lifted`);
+    } catch (error) {
+      console.error("Error lifting suspension:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to lift suspension");
+    } finally {
+      setPendingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(account.id);
+        return next;
+      });
+    }
+  };
+
+  const renderPreview = (report: OpenReport) => {
+    if (isContentGone(report)) {
+      return (
+        <p className="text-sm italic text-muted-foreground">
+          This content has already been deleted.
+        </p>
+      );
+    }
+
+    if (report.target_type === "profile") {
+      return (
+        <Link to={`/u/${report.author_username}`} className="flex items-center gap-3">
+          <Avatar className="h-12 w-12">
+            <AvatarImage src={report.author_avatar_url || undefined} />
+            <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+              {report.author_username?.[0].toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="text-sm font-semibold">{report.author_username}</p>
+            {report.content && (
+              <p className="text-sm text-muted-foreground line-clamp-2">{report.content}</p>
+            )}
+          </div>
+        </Link>
+      );
+    }
+
+    return (
+      <Link to={`/p/${report.post_id}`} className="flex items-start gap-3">
+        {report.media_url && (
+          <ResponsiveImage
+            src={report.poster_url ?? report.media_url}
+            variants={report.media_variants}
+            blurhash={report.blurhash}
+            sizes="64px"
+            className="h-16 w-16 shrink-0 rounded"
+          />
+        )}
+        <p className="min-w-0 text-sm break-words line-clamp-3">
+          {report.content || (
+            <span className="italic text-muted-foreground">No caption</span>
+          )}
+        </p>
+      </Link>
+    );
+  };
+
+  if (isAdmin === false) {
+    return (
+      <Layout>
+        <div className="max-w-2xl mx-auto pb-20 md:pb-6">
+          <Card className="p-12 text-center space-y-2">
+            <p className="text-muted-foreground">You don't have access to this page.</p>
+            <Link to="/" className="text-sm text-primary hover:underline">
+              Return to Home
+            </Link>
+          </Card>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6">
+        <div className="flex items-center gap-2 mb-6">
+          <ShieldAlert className="h-6 w-6" />
+          <h1 className="text-2xl font-bold">Moderation</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <Tabs
+            defaultValue="reports"
+            onValueChange={(value) => {
+              if (value === "audit") fetchAuditLog();
+              if (value === "suspended") fetchSuspended();
+            }}
+          >
+            <TabsList className="w-full grid grid-cols-3 mb-6">
+              <TabsTrigger value="reports">Open reports</TabsTrigger>
+              <TabsTrigger value="suspended">Suspended</TabsTrigger>
+              <TabsTrigger value="audit">Audit log</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="reports" className="space-y-3">
+              {reports.length === 0 ? (
+                <Card className="p-12 text-center">
+                  <p className="text-muted-foreground">No open reports</p>
+                </Card>
+              ) : (
+                <>
+                  {reports.map((report) => {
+                    const pending = pendingIds.has(report.id);
+                    const gone = isContentGone(report);
+
+                    return (
+                      <Card key={report.id} className="p-4 space-y-3">
+                        <div className="flex flex-wrap items-center gap-2 text-sm">
+                          <Badge variant="destructive">{getReportReasonLabel(report.reason)}</Badge>
+                          <Badge variant="outline" className="capitalize">
+                            {report.target_type}
+                          </Badge>
+                          <span className="text-muted-foreground">
+                            by {report.reporter_username ?? "a deleted account"} ·{" "}
+                            {formatDistanceToNow(new Date(report.created_at), { addSuffix: true })}
+                          </span>
+                        </div>
+
+                        {report.details && (
+                          <p className="text-sm text-muted-foreground">“{report.details}”</p>
+                        )}
+
+                        <div className="rounded-lg border p-3">{renderPreview(report)}</div>
+
+                        {report.author_username && report.target_type !== "profile" && (
+                          <p className="text-sm text-muted-foreground">
+                            Posted by{" "}
+                            <Link
+                              to={`/u/${report.author_username}`}
+                              className="font-semibold text-foreground hover:underline"
+                            >
+                              {report.author_username}
+                            </Link>
+                          </p>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={pending}
+                            onClick={() => handleAction(report, "dismiss")}
+                          >
+                            Dismiss
+                          </Button>
+                          {report.target_type !== "profile" && (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              disabled={pending || gone}
+                              onClick={() => setConfirming({ report, action: "delete_content" })}
+                            >
+                              Delete {report.target_type}
+                            </Button>
+                          )}
+                          {report.author_suspended_at ? (
+                            <Badge variant="secondary">Author suspended</Badge>
+                          ) : (
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              disabled={pending || gone}
+                              onClick={() => setConfirming({ report, action: "suspend_user" })}
+                            >
+                              Suspend author
+                            </Button>
+                          )}
+                        </div>
+                      </Card>
+                    );
+                  })}
+
+                  <div ref={sentinelRef} />
+                  {loadingMore && (
+                    <div className="flex justify-center py-4">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  )}
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="suspended">
+              {suspendedLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : suspended.length === 0 ? (
+                <Card className="p-12 text-center">
+                  <p className="text-muted-foreground">No suspended accounts</p>
+                </Card>
+              ) : (
+                <Card className="divide-y">
+                  {suspended.map((account) => (
+                    <div key={account.id} className="flex items-center gap-3 p-4">
+                      <Link
+                        to={`/u/${account.username}`}
+                        className="flex flex-1 items-center gap-3 min-w-0"
+                      >
+                        <Avatar className="h-10 w-10">
+                          <AvatarImage src={account.avatar_url || undefined} />
+                          <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                            {account.username[0].toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="min-w-0">
+                          <p className="text-sm font-semibold truncate">{account.username}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Suspended{" "}
+                            {formatDistanceToNow(new Date(account.suspended_at), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </Link>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={pendingIds.has(account.id)}
+                        onClick={() => handleUnsuspend(account)}
+                      >
+                        Lift suspension
+                      </Button>
+                    </div>
+                  ))}
+                </Card>
+              )}
+            </TabsContent>
+
+            <TabsContent value="audit">
+              {auditLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : auditLog.length === 0 ? (
+                <Card className="p-12 text-center">
+                  <p className="text-muted-foreground">No moderation actions yet</p>
+                </Card>
+              ) : (
+                <Card className="divide-y">
+                  {auditLog.map((entry) => (
+                    <div key={entry.id} className="p-4 text-sm">
+                      <p>
+                        <span className="font-semibold">
+                          {entry.admin?.username ?? "A deleted admin"}
+                        </span>{" "}
+                        {describeAction(entry)}
+                        {entry.report && (
+                          <> reported for {getReportReasonLabel(entry.report.reason).toLowerCase()}</>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                  ))}
+                </Card>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <AlertDialog open={!!confirming} onOpenChange={(open) => !open && setConfirming(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirming?.action === "delete_content"
+                ? `Delete this ${confirming.report.target_type}?`
+                : `Suspend ${confirming?.report.author_username ?? "this account"}?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirming?.action === "delete_content"
+                ? "The content is removed permanently and every open report about it is closed."
+                : "Until the suspension is lifted they can't post, comment, like, follow, report or send messages. Every open report about this content is closed."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => confirming && handleAction(confirming.report, confirming.action)}
+            >
+              {confirming?.action === "delete_content" ? "Delete" : "Suspend"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Layout>
+  );
+};
+
+export default Admin;
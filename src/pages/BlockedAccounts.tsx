@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { unblockUser } from "@/lib/blocks";
+
+interface BlockedAccount {
+  block_id: string;
+  blocked_at: string;
+  id: string;
+  username: string;
+  full_name: string | null;
+  avatar_url: string | null;
+}
+
+const BlockedAccounts = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [accounts, setAccounts] = useState<BlockedAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pendingIds, setPendingIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    fetchBlockedAccounts();
+  }, []);
+
+  const fetchBlockedAccounts = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      // Blocked profiles are hidden by RLS, so they come through an RPC
+      const { data, error } = await supabase.rpc("get_blocked_accounts");
+      if (error) throw error;
+      setAccounts(data || []);
+    } catch (error) {
+      console.error("Error fetching blocked accounts:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnblock = async (account: BlockedAccount) => {
+    if (!userId) return;
+
+    setPendingIds((prev) => new Set(prev).add(account.id));
+    try {
+      await unblockUser(userId, account.id);
+      setAccounts((prev) => prev.filter((a) => a.block_id !== account.block_id));
+      toast.success(`Unblocked ${account.username}`);
+    } catch (error) {
+      toast.error("Failed to unblock");
+    } finally {
+      setPendingIds((prev) => {
+        const next = new Set(prev);
+        next.delete(account.id);
+        return next;
+      });
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/profile">
+              <ArrowLeft className="h-5 w-5" />
+              <span className="sr-only">Back to profile</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Blocked accounts</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : accounts.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-muted-foreground">You haven't blocked anyone</p>
+          </Card>
+        ) : (
+          <Card className="p-6 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Blocked accounts can't see your profile, posts or stories, and you won't see
+              theirs. They aren't told when you block or unblock them.
+            </p>
+            {accounts.map((account) => (
+              <div key={account.block_id} className="flex items-center gap-3">
+                <Avatar className="h-10 w-10">
+                  <AvatarImage src={account.avatar_url || undefined} />
+                  <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                    {account.username[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-semibold">{account.username}</p>
+                  {account.full_name && (
+                    <p className="truncate text-sm text-muted-foreground">{account.full_name}</p>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={pendingIds.has(account.id)}
+                  onClick={() => handleUnblock(account)}
+                >
+                  Unblock
+                </Button>
+              </div>
+            ))}
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default BlockedAccounts;
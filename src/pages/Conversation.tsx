@@ -0,0 +1,362 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import ConversationAvatar from "@/components/ConversationAvatar";
+import SharedPostCard, { type SharedPost } from "@/components/SharedPostCard";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Loader2, Send } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { getConversationName, sendMessage, type Participant } from "@/lib/messages";
+
+interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  shared_post_id: string | null;
+  created_at: string;
+  shared_post: SharedPost | null;
+}
+
+interface Member extends Participant {
+  last_read_at: string;
+}
+
+const PAGE_SIZE = 50;
+
+const MESSAGE_SELECT = `
+  *,
+  shared_post:posts!messages_shared_post_id_fkey (
+    id,
+    media_url,
+    media_type,
+    media_variants,
+    blurhash,
+    poster_url,
+    duration,
+    caption,
+    profiles (username, avatar_url)
+  )
+`;
+
+const Conversation = () => {
+  const { conversationId } = useParams<{ conversationId: string }>();
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [conversation, setConversation] = useState<{ title: string | null; is_group: boolean } | null>(null);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasEarlier, setHasEarlier] = useState(false);
+  const [loadingEarlier, setLoadingEarlier] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const latestMessageAtRef = useRef<string | null>(null);
+
+  // Move the read marker up to the newest message. Using the message's own
+  // timestamp rather than the device clock keeps receipts accurate, and the
+  // filter stops the marker from ever moving backwards.
+  const markAsRead = useCallback(async (userId: string) => {
+    const upTo = latestMessageAtRef.current;
+    if (!conversationId || !upTo) return;
+
+    const { error } = await supabase
+      .from("conversation_participants")
+      .update({ last_read_at: upTo })
+      .eq("conversation_id", conversationId)
+      .eq("user_id", userId)
+      .lt("last_read_at", upTo);
+    if (error) console.error("Error marking conversation read:", error);
+  }, [conversationId]);
+
+  const fetchMessages = useCallback(async (before?: string) => {
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_SELECT)
+      .eq("conversation_id", conversationId)
+      .order("created_at", { ascending: false })
+      .limit(PAGE_SIZE);
+    if (before) {
+      query = query.lt("created_at", before);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return ((data as unknown as Message[]) || []).reverse();
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const loadConversation = async () => {
+      setLoading(true);
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+        if (!user) return;
+        setCurrentUserId(user.id);
+
+        const { data: conversationData } = await supabase
+          .from("conversations")
+          .select("title, is_group")
+          .eq("id", conversationId)
+          .maybeSingle();
+        setConversation(conversationData);
+        if (!conversationData) return;
+
+        const { data: memberData } = await supabase
+          .from("conversation_participants")
+          .select("last_read_at, profiles (id, username, avatar_url)")
+          .eq("conversation_id", conversationId);
+        // Members the viewer has blocked, or who blocked them, come back without a profile
+        setMembers(
+          (memberData || [])
+            .filter(({ profiles }) => profiles)
+            .map(({ last_read_at, profiles }) => ({ ...profiles, last_read_at }))
+        );
+
+        const page = await fetchMessages();
+        setMessages(page);
+        setHasEarlier(page.length === PAGE_SIZE);
+        latestMessageAtRef.current = page[page.length - 1]?.created_at ?? null;
+        markAsRead(user.id);
+      } catch (error) {
+        console.error("Error fetching conversation:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadConversation();
+  }, [conversationId, fetchMessages, markAsRead]);
+
+  // New messages and read receipts arrive over Realtime
+  useEffect(() => {
+    if (!conversationId || !currentUserId) return;
+
+    const channel = supabase
+      .channel(`conversation:${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        async (payload) => {
+          // Re-read the message so shared posts come with their details
+          const { data } = await supabase
+            .from("messages")
+            .select(MESSAGE_SELECT)
+            .eq("id", payload.new.id)
+            .maybeSingle();
+          if (!data) return;
+
+          const message = data as unknown as Message;
+          latestMessageAtRef.current = message.created_at;
+          setMessages((prev) =>
+            prev.some((m) => m.id === message.id) ? prev : [...prev, message]
+          );
+          if (message.sender_id !== currentUserId && document.visibilityState === "visible") {
+            markAsRead(currentUserId);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "conversation_participants",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          setMembers((prev) =>
+            prev.map((member) =>
+              member.id === payload.new.user_id
+                ? { ...member, last_read_at: payload.new.last_read_at }
+                : member
+            )
+          );
+        }
+      )
+      .subscribe();
+
+    // Catch up on anything that arrived while the tab was in the background
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") markAsRead(currentUserId);
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+
+    return () => {
+      supabase.removeChannel(channel);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [conversationId, currentUserId, markAsRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const loadEarlier = async () => {
+    if (messages.length === 0) return;
+    setLoadingEarlier(true);
+    try {
+      const page = await fetchMessages(messages[0].created_at);
+      setMessages((prev) => [...page, ...prev]);
+      setHasEarlier(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching earlier messages:", error);
+    } finally {
+      setLoadingEarlier(false);
+    }
+  };
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !conversationId || !currentUserId) return;
+
+    setSending(true);
+    try {
+      await sendMessage({ conversationId, senderId: currentUserId, content: draft });
+      setDraft("");
+    } catch (error) {
+      console.error("Error sending message:", error);
+      toast.error("Failed to send message");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const others = members.filter((member) => member.id !== currentUserId);
+  const membersById = new Map(members.map((member) => [member.id, member]));
+
+  // Receipt shown under the latest message the current user sent
+  const lastOwnMessage = [...messages].reverse().find((m) => m.sender_id === currentUserId);
+  const seenBy = lastOwnMessage
+    ? others.filter(
+        (member) => new Date(member.last_read_at) >= new Date(lastOwnMessage.created_at)
+      )
+    : [];
+  const receipt =
+    seenBy.length === 0
+      ? "Sent"
+      : conversation?.is_group
+        ? `Seen by ${seenBy.map((member) => member.username).join(", ")}`
+        : "Seen";
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !conversation ? (
+          <Card className="p-12 text-center space-y-2">
+            <p className="text-muted-foreground">This conversation isn't available.</p>
+            <Link to="/direct" className="text-sm text-primary hover:underline">
+              Back to messages
+            </Link>
+          </Card>
+        ) : (
+          <Card className="flex h-[calc(100dvh-12rem)] md:h-[calc(100dvh-8rem)] flex-col overflow-hidden">
+            {/* Header */}
+            <div className="flex items-center gap-3 border-b border-border p-3">
+              <Button variant="ghost" size="icon" asChild>
+                <Link to="/direct">
+                  <ArrowLeft className="h-5 w-5" />
+                  <span className="sr-only">Back to messages</span>
+                </Link>
+              </Button>
+              <ConversationAvatar
+                isGroup={conversation.is_group}
+                participants={others}
+                className="h-9 w-9"
+              />
+              {conversation.is_group || others.length === 0 ? (
+                <p className="font-semibold truncate">
+                  {getConversationName({ title: conversation.title, participants: others })}
+                </p>
+              ) : (
+                <Link to={`/u/${others[0].username}`} className="font-semibold hover:underline">
+                  {others[0].username}
+                </Link>
+              )}
+            </div>
+
+            {/* Messages */}
+            <div className="flex-1 space-y-2 overflow-y-auto p-4">
+              {hasEarlier && (
+                <div className="flex justify-center">
+                  <Button variant="ghost" size="sm" onClick={loadEarlier} disabled={loadingEarlier}>
+                    {loadingEarlier && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Load earlier messages
+                  </Button>
+                </div>
+              )}
+
+              {messages.map((message) => {
+                const isOwn = message.sender_id === currentUserId;
+                const sender = membersById.get(message.sender_id);
+
+                return (
+                  <div
+                    key={message.id}
+                    className={cn("flex flex-col gap-1", isOwn ? "items-end" : "items-start")}
+                  >
+                    {!isOwn && conversation.is_group && sender && (
+                      <span className="px-3 text-xs text-muted-foreground">{sender.username}</span>
+                    )}
+                    {message.shared_post_id !== null || !message.content ? (
+                      <SharedPostCard post={message.shared_post} />
+                    ) : null}
+                    {message.content && (
+                      <p
+                        title={format(new Date(message.created_at), "PPp")}
+                        className={cn(
+                          "max-w-[75%] whitespace-pre-wrap break-words rounded-2xl px-3 py-2 text-sm",
+                          isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+                        )}
+                      >
+                        {message.content}
+                      </p>
+                    )}
+                    {message.id === lastOwnMessage?.id && (
+                      <span className="px-1 text-xs text-muted-foreground">{receipt}</span>
+                    )}
+                  </div>
+                );
+              })}
+              <div ref={bottomRef} />
+            </div>
+
+            {/* Composer */}
+            <form onSubmit={handleSend} className="flex items-center gap-2 border-t border-border p-3">
+              <Input
+                placeholder="Message..."
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                maxLength={2000}
+              />
+              <Button type="submit" size="icon" disabled={!draft.trim() || sending}>
+                {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                <span className="sr-only">Send</span>
+              </Button>
+            </form>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Conversation;
@@ -1,115 +1,393 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Textarea } from "@/components/ui/textarea";
+import MentionTextarea from "@/components/MentionTextarea";
+import ImageEditor from "@/components/ImageEditor";
 import { Label } from "@/components/ui/label";
 import { Card } from "@/components/ui/card";
-import { Upload, Loader2, X, Image as ImageIcon } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Upload, Loader2, X, Plus, ChevronLeft, ChevronRight, RotateCcw, Image as ImageIcon } from "lucide-react";
 import { toast } from "sonner";
+import {
+  ASPECT_RATIOS,
+  DEFAULT_EDITS,
+  renderEditedImage,
+  type ImageEdits,
+} from "@/lib/image-editing";
+import { uploadResumable, type ResumableUpload } from "@/lib/resumable-upload";
+import { uploadImageVariants, type UploadedVariants } from "@/lib/image-variants";
+import { extractVideoMetadata } from "@/lib/video-metadata";
+import { MAX_MEDIA_SIZE_MB, validateMediaFile } from "@/lib/media-validation";
+import type { Json } from "@/integrations/supabase/types";
+
+const MAX_MEDIA_ITEMS = 10;
+
+interface UploadedVideoDetails {
+  posterPath: string;
+  posterUrl: string;
+  duration: number;
+  width: number;
+  height: number;
+}
+
+interface SelectedMedia {
+  id: string;
+  file: File;
+  preview: string;
+  edits: ImageEdits;
+}
+
+// Animated GIFs and videos are uploaded as-is
+const isEditable = (file: File) =>
+  file.type.startsWith("image/") && file.type !== "image/gif";
 
 const Create = () => {
   const navigate = useNavigate();
-  const [file, setFile] = useState<File | null>(null);
-  const [preview, setPreview] = useState<string | null>(null);
+  const [media, setMedia] = useState<SelectedMedia[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [aspectRatio, setAspectRatio] = useState<number>(ASPECT_RATIOS[0].value);
   const [caption, setCaption] = useState("");
   const [location, setLocation] = useState("");
   const [uploading, setUploading] = useState(false);
+  const [uploadFailed, setUploadFailed] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null);
+  const activeUploadRef = useRef<ResumableUpload | null>(null);
+  const cancelledRef = useRef(false);
+  const uploadPathsRef = useRef<Record<string, string>>({});
+  const uploadBytesRef = useRef<Record<string, { uploaded: number; total: number }>>({});
+  const completedUploadsRef = useRef<Set<string>>(new Set());
+  const uploadVariantsRef = useRef<Record<string, UploadedVariants>>({});
+  const uploadVideoDetailsRef = useRef<Record<string, UploadedVideoDetails>>({});
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (!selectedFile) return;
+    const selectedFiles = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (selectedFiles.length === 0) return;
 
-    // Validate file type
-    const validTypes = ["image/jpeg", "image/png", "image/gif", "video/mp4", "video/quicktime"];
-    if (!validTypes.includes(selectedFile.type)) {
-      toast.error("Please select a valid image or video file");
-      return;
+    const accepted: SelectedMedia[] = [];
+
+    for (const selectedFile of selectedFiles) {
+      const validationError = validateMediaFile(selectedFile);
+      if (validationError) {
+        toast.error(validationError);
+        continue;
+      }
+
+      accepted.push({
+        id: crypto.randomUUID(),
+        file: selectedFile,
+        preview: URL.createObjectURL(selectedFile),
+        edits: DEFAULT_EDITS,
+      });
     }
 
-    // Validate file size (max 50MB)
-    if (selectedFile.size > 50 * 1024 * 1024) {
-      toast.error("File size must be less than 50MB");
-      return;
+    const remaining = MAX_MEDIA_ITEMS - media.length;
+    if (accepted.length > remaining) {
+      toast.error(`You can add up to ${MAX_MEDIA_ITEMS} photos or videos`);
+      accepted.splice(remaining).forEach((item) => URL.revokeObjectURL(item.preview));
+    }
+    if (accepted.length === 0) return;
+
+    setMedia([...media, ...accepted]);
+    setSelectedIndex(media.length);
+  };
+
+  const getUploadProgress = () => {
+    let uploaded = 0;
+    let total = 0;
+    for (const item of media) {
+      const bytes = uploadBytesRef.current[item.id];
+      const itemTotal = bytes?.total ?? item.file.size;
+      total += itemTotal;
+      uploaded += completedUploadsRef.current.has(item.id)
+        ? itemTotal
+        : bytes?.uploaded ?? 0;
+    }
+    return total > 0 ? Math.round((uploaded / total) * 100) : 0;
+  };
+
+  const resetUploads = () => {
+    uploadPathsRef.current = {};
+    uploadBytesRef.current = {};
+    completedUploadsRef.current = new Set();
+    uploadVariantsRef.current = {};
+    uploadVideoDetailsRef.current = {};
+    setProgress(null);
+    setUploadFailed(false);
+  };
+
+  // Remove storage objects that no post row will ever reference
+  const removeUploadedMedia = async () => {
+    const paths = media
+      .filter((item) => completedUploadsRef.current.has(item.id))
+      .map((item) => uploadPathsRef.current[item.id]);
+    for (const { paths: variantPaths } of Object.values(uploadVariantsRef.current)) {
+      paths.push(...variantPaths);
+    }
+    for (const { posterPath } of Object.values(uploadVideoDetailsRef.current)) {
+      paths.push(posterPath);
+    }
+    if (paths.length === 0) return;
+
+    const { error } = await supabase.storage.from("posts").remove(paths);
+    if (error) {
+      console.error("Error removing orphaned uploads:", error);
+    }
+  };
+
+  // Upload a poster frame (with its own variants) next to the video. Browsers
+  // that can't decode the video still get to post it, just without a poster.
+  const uploadVideoDetails = async (item: SelectedMedia, basePath: string) => {
+    try {
+      const { poster, duration, width, height } = await extractVideoMetadata(item.file);
+      const posterPath = `${basePath}_poster.jpg`;
+
+      const { error } = await supabase.storage.from("posts").upload(posterPath, poster, {
+        contentType: "image/jpeg",
+        upsert: true,
+      });
+      if (error) throw error;
+
+      uploadVideoDetailsRef.current[item.id] = {
+        posterPath,
+        posterUrl: supabase.storage.from("posts").getPublicUrl(posterPath).data.publicUrl,
+        duration,
+        width,
+        height,
+      };
+      uploadVariantsRef.current[item.id] = await uploadImageVariants(
+        "posts",
+        `${basePath}_poster`,
+        poster
+      );
+    } catch (error) {
+      console.error("Error creating video poster:", error);
+    }
+  };
+
+  const discardUploads = async () => {
+    activeUploadRef.current = null;
+    await removeUploadedMedia();
+    resetUploads();
+    toast("Upload cancelled");
+  };
+
+  // Checked after every step of a submit, since the tus upload that
+  // `activeUploadRef` can abort only exists for part of it
+  const throwIfCancelled = () => {
+    if (cancelledRef.current) {
+      throw new DOMException("Upload cancelled", "AbortError");
     }
+  };
 
-    setFile(selectedFile);
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      setPreview(reader.result as string);
-    };
-    reader.readAsDataURL(selectedFile);
+  const handleCancel = async () => {
+    cancelledRef.current = true;
+    if (uploading) {
+      // The running submit stops at its next step and cleans up after itself
+      await activeUploadRef.current?.abort(true);
+      return;
+    }
+    await discardUploads();
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!file) {
+    if (media.length === 0) {
       toast.error("Please select a file");
       return;
     }
 
+    cancelledRef.current = false;
     setUploading(true);
+    setUploadFailed(false);
+    setProgress(getUploadProgress());
+
+    let mediaUploaded = false;
 
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) throw new Error("Not authenticated");
+      throwIfCancelled();
 
-      // Upload file to storage
-      const fileExt = file.name.split(".").pop();
-      const fileName = `${user.id}/${Date.now()}.${fileExt}`;
-      
-      const { error: uploadError } = await supabase.storage
-        .from("posts")
-        .upload(fileName, file);
+      // Upload files to storage, keeping the chosen order. Files finished on
+      // a previous attempt are skipped and interrupted ones resume.
+      const uploaded: {
+        media_url: string;
+        media_type: string;
+        variants: Json | null;
+        blurhash: string | null;
+        poster_url: string | null;
+        duration: number | null;
+        width: number | null;
+        height: number | null;
+      }[] = [];
+      for (const [index, item] of media.entries()) {
+        const { file } = item;
+        const editable = isEditable(file);
+        const fileExt = editable ? "jpg" : file.name.split(".").pop();
+        const fileName = (uploadPathsRef.current[item.id] ??=
+          `${user.id}/${Date.now()}-${index}.${fileExt}`);
 
-      if (uploadError) throw uploadError;
+        if (!completedUploadsRef.current.has(item.id)) {
+          const body = editable
+            ? await renderEditedImage(item.preview, item.edits, aspectRatio)
+            : file;
+          throwIfCancelled();
 
-      // Get public URL
-      const {
-        data: { publicUrl },
-      } = supabase.storage.from("posts").getPublicUrl(fileName);
-
-      // Create post record
-      const mediaType = file.type.startsWith("video/") ? "video" : "image";
-      
-      const { error: insertError } = await supabase.from("posts").insert({
-        user_id: user.id,
-        media_url: publicUrl,
-        media_type: mediaType,
-        caption: caption.trim() || null,
-        location: location.trim() || null,
-      });
+          // Smaller copies for grids and narrow screens, plus a placeholder
+          const basePath = fileName.replace(/\.[^.]+$/, "");
+          if (editable) {
+            uploadVariantsRef.current[item.id] = await uploadImageVariants(
+              "posts",
+              basePath,
+              body
+            );
+          } else if (file.type.startsWith("video/")) {
+            await uploadVideoDetails(item, basePath);
+          }
+          throwIfCancelled();
+
+          const upload = uploadResumable({
+            bucket: "posts",
+            path: fileName,
+            file: body,
+            contentType: editable ? "image/jpeg" : file.type,
+            onProgress: (bytesUploaded, bytesTotal) => {
+              uploadBytesRef.current[item.id] = {
+                uploaded: bytesUploaded,
+                total: bytesTotal,
+              };
+              setProgress(getUploadProgress());
+            },
+          });
+          activeUploadRef.current = upload;
+          await upload.promise;
+          activeUploadRef.current = null;
+          completedUploadsRef.current.add(item.id);
+          setProgress(getUploadProgress());
+        }
+
+        // Get public URL
+        const {
+          data: { publicUrl },
+        } = supabase.storage.from("posts").getPublicUrl(fileName);
+
+        const variants = uploadVariantsRef.current[item.id];
+        const video = uploadVideoDetailsRef.current[item.id];
+        uploaded.push({
+          media_url: publicUrl,
+          media_type: file.type.startsWith("video/") ? "video" : "image",
+          variants: variants ? (variants.variants as unknown as Json) : null,
+          blurhash: variants?.blurhash ?? null,
+          poster_url: video?.posterUrl ?? null,
+          duration: video?.duration ?? null,
+          width: video?.width ?? null,
+          height: video?.height ?? null,
+        });
+      }
+      throwIfCancelled();
+      mediaUploaded = true;
+
+      // Create post record; the first item doubles as the cover
+      const { data: post, error: insertError } = await supabase
+        .from("posts")
+        .insert({
+          user_id: user.id,
+          media_url: uploaded[0].media_url,
+          media_type: uploaded[0].media_type,
+          media_variants: uploaded[0].variants,
+          blurhash: uploaded[0].blurhash,
+          poster_url: uploaded[0].poster_url,
+          duration: uploaded[0].duration,
+          width: uploaded[0].width,
+          height: uploaded[0].height,
+          aspect_ratio: aspectRatio,
+          caption: caption.trim() || null,
+          location: location.trim() || null,
+        })
+        .select("id")
+        .single();
 
       if (insertError) throw insertError;
 
+      const { error: mediaError } = await supabase.from("post_media").insert(
+        uploaded.map((item, position) => ({
+          post_id: post.id,
+          position,
+          ...item,
+        }))
+      );
+
+      if (mediaError) {
+        await supabase.from("posts").delete().eq("id", post.id);
+        throw mediaError;
+      }
+
+      resetUploads();
       toast.success("Post created successfully!");
       navigate("/");
-    } catch (error: any) {
+    } catch (error) {
+      if (cancelledRef.current) {
+        await discardUploads();
+        return;
+      }
+
       console.error("Error creating post:", error);
-      toast.error(error.message || "Failed to create post");
+      activeUploadRef.current = null;
+
+      if (mediaUploaded) {
+        // The upload worked but the post couldn't be saved
+        await removeUploadedMedia();
+        resetUploads();
+      } else {
+        setUploadFailed(true);
+      }
+      toast.error(
+        error instanceof Error && error.message ? error.message : "Failed to create post"
+      );
     } finally {
       setUploading(false);
     }
   };
 
-  const clearFile = () => {
-    setFile(null);
-    setPreview(null);
+  const removeMedia = (index: number) => {
+    URL.revokeObjectURL(media[index].preview);
+    setMedia(media.filter((_, i) => i !== index));
+    setSelectedIndex(Math.max(0, Math.min(selectedIndex, media.length - 2)));
+  };
+
+  const moveMedia = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= media.length) return;
+
+    const reordered = [...media];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setMedia(reordered);
+    setSelectedIndex(target);
+  };
+
+  const updateEdits = (index: number, edits: ImageEdits) => {
+    setMedia(media.map((item, i) => (i === index ? { ...item, edits } : item)));
   };
 
+  const selected = media[selectedIndex];
+
   return (
     <Layout>
       <div className="max-w-2xl mx-auto pb-20 md:pb-6">
         <h1 className="text-2xl font-bold mb-6">Create New Post</h1>
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <Card className="p-6">
+          <Card
+            className={`p-6 ${uploading || uploadFailed ? "pointer-events-none opacity-60" : ""}`}
+          >
             {/* File Upload */}
-            {!preview ? (
+            {!selected ? (
               <div className="border-2 border-dashed border-border rounded-lg p-12 text-center hover:border-primary transition-colors cursor-pointer">
                 <label htmlFor="file-upload" className="cursor-pointer">
                   <ImageIcon className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
@@ -117,48 +395,141 @@ const Create = () => {
                     Click to upload or drag and drop
                   </p>
                   <p className="text-xs text-muted-foreground">
-                    Images or videos up to 50MB
+                    Up to {MAX_MEDIA_ITEMS} images or videos, {MAX_MEDIA_SIZE_MB}MB each
                   </p>
                   <Input
                     id="file-upload"
                     type="file"
                     accept="image/*,video/*"
+                    multiple
                     onChange={handleFileChange}
                     className="hidden"
                   />
                 </label>
               </div>
             ) : (
-              <div className="relative">
-                <Button
-                  type="button"
-                  variant="destructive"
-                  size="icon"
-                  className="absolute top-2 right-2 z-10"
-                  onClick={clearFile}
-                >
-                  <X className="h-4 w-4" />
-                </Button>
-                <div className="aspect-square rounded-lg overflow-hidden bg-muted">
-                  {file?.type.startsWith("video/") ? (
-                    <video src={preview} controls className="w-full h-full object-cover" />
+              <div className="space-y-4">
+                {/* Aspect ratio */}
+                <div className="flex gap-2">
+                  {ASPECT_RATIOS.map((ratio) => (
+                    <Button
+                      key={ratio.label}
+                      type="button"
+                      size="sm"
+                      variant={aspectRatio === ratio.value ? "secondary" : "ghost"}
+                      onClick={() => setAspectRatio(ratio.value)}
+                    >
+                      {ratio.label}
+                    </Button>
+                  ))}
+                </div>
+
+                <div className="relative">
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    size="icon"
+                    className="absolute top-2 right-2 z-10"
+                    onClick={() => removeMedia(selectedIndex)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                  {isEditable(selected.file) ? (
+                    <ImageEditor
+                      key={selected.id}
+                      src={selected.preview}
+                      aspectRatio={aspectRatio}
+                      edits={selected.edits}
+                      onChange={(edits) => updateEdits(selectedIndex, edits)}
+                    />
                   ) : (
-                    <img src={preview} alt="Preview" className="w-full h-full object-cover" />
+                    <div
+                      className="rounded-lg overflow-hidden bg-muted"
+                      style={{ aspectRatio }}
+                    >
+                      {selected.file.type.startsWith("video/") ? (
+                        <video src={selected.preview} controls className="w-full h-full object-cover" />
+                      ) : (
+                        <img src={selected.preview} alt="Preview" className="w-full h-full object-cover" />
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {/* Media order */}
+                <div className="flex gap-2 overflow-x-auto pb-1">
+                  {media.map((item, index) => (
+                    <div key={item.id} className="relative shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedIndex(index)}
+                        className={`block h-20 w-20 rounded-md overflow-hidden bg-muted border-2 ${
+                          index === selectedIndex ? "border-primary" : "border-transparent"
+                        }`}
+                      >
+                        {item.file.type.startsWith("video/") ? (
+                          <video src={item.preview} className="w-full h-full object-cover" />
+                        ) : (
+                          <img src={item.preview} alt="" className="w-full h-full object-cover" />
+                        )}
+                      </button>
+                      <span className="absolute top-1 left-1 rounded-full bg-black/60 px-1.5 text-[10px] text-white">
+                        {index + 1}
+                      </span>
+                      {index === selectedIndex && media.length > 1 && (
+                        <div className="absolute bottom-1 left-1 right-1 flex justify-between">
+                          <button
+                            type="button"
+                            aria-label="Move earlier"
+                            disabled={index === 0}
+                            onClick={() => moveMedia(index, -1)}
+                            className="rounded-full bg-black/60 text-white disabled:opacity-30"
+                          >
+                            <ChevronLeft className="h-4 w-4" />
+                          </button>
+                          <button
+                            type="button"
+                            aria-label="Move later"
+                            disabled={index === media.length - 1}
+                            onClick={() => moveMedia(index, 1)}
+                            className="rounded-full bg-black/60 text-white disabled:opacity-30"
+                          >
+                            <ChevronRight className="h-4 w-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  {media.length < MAX_MEDIA_ITEMS && (
+                    <label
+                      htmlFor="file-upload-more"
+                      className="flex h-20 w-20 shrink-0 cursor-pointer items-center justify-center rounded-md border-2 border-dashed border-border hover:border-primary transition-colors"
+                    >
+                      <Plus className="h-6 w-6 text-muted-foreground" />
+                      <Input
+                        id="file-upload-more"
+                        type="file"
+                        accept="image/*,video/*"
+                        multiple
+                        onChange={handleFileChange}
+                        className="hidden"
+                      />
+                    </label>
                   )}
                 </div>
               </div>
             )}
           </Card>
 
-          {preview && (
+          {media.length > 0 && (
             <Card className="p-6 space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="caption">Caption</Label>
-                <Textarea
+                <MentionTextarea
                   id="caption"
                   placeholder="Write a caption..."
                   value={caption}
-                  onChange={(e) => setCaption(e.target.value)}
+                  onChange={setCaption}
                   rows={4}
                   maxLength={2200}
                 />
@@ -189,6 +560,11 @@ const Create = () => {
                     <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                     Uploading...
                   </>
+                ) : uploadFailed ? (
+                  <>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Retry Upload
+                  </>
                 ) : (
                   <>
                     <Upload className="mr-2 h-4 w-4" />
@@ -196,6 +572,25 @@ const Create = () => {
                   </>
                 )}
               </Button>
+
+              {progress !== null && (
+                <div className="space-y-2">
+                  <Progress value={progress} />
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>
+                      {uploadFailed ? "Upload interrupted at" : "Uploaded"} {progress}%
+                    </span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleCancel}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              )}
             </Card>
           )}
         </form>
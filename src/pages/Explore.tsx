@@ -1,33 +1,45 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import Layout from "@/components/Layout";
-import { Input } from "@/components/ui/input";
-import { Search, Loader2 } from "lucide-react";
+import PostThumbnail from "@/components/PostThumbnail";
+import SearchCommand from "@/components/SearchCommand";
+import { Badge } from "@/components/ui/badge";
+import { MapPin, Loader2, X } from "lucide-react";
 
 interface Post {
   id: string;
   media_url: string;
+  media_type: string;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
+  duration: number | null;
   likes: { id: string }[];
   comments: { id: string }[];
 }
 
+
 const Explore = () => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [locationFilter, setLocationFilter] = useState<string | null>(null);
 
-  useEffect(() => {
-    fetchExplorePosts();
-  }, []);
-
-  const fetchExplorePosts = async () => {
+  const fetchExplorePosts = useCallback(async () => {
+    setLoading(true);
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from("posts")
         .select(
           `
           id,
           media_url,
+          media_type,
+          media_variants,
+          blurhash,
+          poster_url,
+          duration,
           likes (id),
           comments (id)
         `
@@ -35,6 +47,12 @@ const Explore = () => {
         .order("created_at", { ascending: false })
         .limit(50);
 
+      if (locationFilter) {
+        query = query.eq("location", locationFilter);
+      }
+
+      const { data, error } = await query;
+
       if (error) throw error;
       setPosts(data || []);
     } catch (error) {
@@ -42,23 +60,27 @@ const Explore = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [locationFilter]);
+
+  useEffect(() => {
+    fetchExplorePosts();
+  }, [fetchExplorePosts]);
 
   return (
     <Layout>
       <div className="max-w-6xl mx-auto pb-20 md:pb-6">
         {/* Search Bar */}
-        <div className="mb-6">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-            <Input
-              type="text"
-              placeholder="Search users, hashtags, or locations..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
-          </div>
+        <div className="mb-6 space-y-3">
+          <SearchCommand onSelectLocation={setLocationFilter} />
+          {locationFilter && (
+            <Badge variant="secondary" className="gap-1 py-1">
+              <MapPin className="h-3 w-3" />
+              {locationFilter}
+              <button onClick={() => setLocationFilter(null)} className="ml-1">
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          )}
         </div>
 
         {/* Explore Grid */}
@@ -73,14 +95,14 @@ const Explore = () => {
         ) : (
           <div className="grid grid-cols-3 gap-1 md:gap-2">
             {posts.map((post) => (
-              <div
+              <Link
                 key={post.id}
-                className="aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity group relative"
+                to={`/p/${post.id}`}
+                className="block aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity group relative"
               >
-                <img
-                  src={post.media_url}
-                  alt="Post"
-                  className="w-full h-full object-cover"
+                <PostThumbnail
+                  post={post}
+                  sizes="(min-width: 768px) 384px, 33vw"
                 />
                 <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 text-white">
                   <div className="flex items-center gap-2">
@@ -92,7 +114,7 @@ const Explore = () => {
                     <span className="text-sm">comments</span>
                   </div>
                 </div>
-              </div>
+              </Link>
             ))}
           </div>
         )}
@@ -1,7 +1,9 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import Layout from "@/components/Layout";
 import PostCard from "@/components/PostCard";
+import StoryTray from "@/components/StoryTray";
 import { Loader2 } from "lucide-react";
 
 interface Post {
@@ -9,6 +11,10 @@ interface Post {
   user_id: string;
   media_url: string;
   media_type: string;
+  aspect_ratio: number;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
   caption: string | null;
   location: string | null;
   created_at: string;
@@ -19,44 +25,124 @@ interface Post {
   likes: { id: string }[];
   comments: { id: string }[];
   saves: { id: string }[];
+  post_media: {
+    id: string;
+    position: number;
+    media_url: string;
+    media_type: string;
+    variants: Json | null;
+    blurhash: string | null;
+    poster_url: string | null;
+  }[];
 }
 
+const PAGE_SIZE = 10;
+
+const POST_SELECT = `
+  *,
+  profiles (username, avatar_url),
+  likes (id),
+  comments (id),
+  saves (id),
+  post_media (id, position, media_url, media_type, variants, blurhash, poster_url)
+`;
+
 const Home = () => {
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
 
-  useEffect(() => {
-    fetchPosts();
+  const fetchPage = useCallback(async (cursor?: Post) => {
+    const { data, error } = await supabase
+      .rpc("get_home_feed", {
+        _cursor_created_at: cursor?.created_at,
+        _cursor_id: cursor?.id,
+        _limit: PAGE_SIZE,
+      })
+      .select(POST_SELECT);
+
+    if (error) throw error;
+    return (data as unknown as Post[]) || [];
   }, []);
 
-  const fetchPosts = async () => {
+  useEffect(() => {
+    const fetchFirstPage = async () => {
+      try {
+        const page = await fetchPage();
+        setPosts(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("Error fetching posts:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [fetchPage]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (loadingMore || !hasMore || posts.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(posts[posts.length - 1]);
+      setPosts((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching more posts:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, hasMore, loadingMore, posts]);
+
+  // Load the next page when the bottom of the feed scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage]);
+
+  // Refresh a single post in place instead of reloading the whole feed
+  const refreshPost = async (postId: string) => {
     try {
       const { data, error } = await supabase
         .from("posts")
-        .select(
-          `
-          *,
-          profiles (username, avatar_url),
-          likes (id),
-          comments (id),
-          saves (id)
-        `
-        )
-        .order("created_at", { ascending: false })
-        .limit(20);
+        .select(POST_SELECT)
+        .eq("id", postId)
+        .maybeSingle();
 
       if (error) throw error;
-      setPosts((data as any) || []);
+      setPosts((prev) =>
+        data
+          ? prev.map((post) =>
+              post.id === postId ? (data as unknown as Post) : post
+            )
+          : prev.filter((post) => post.id !== postId)
+      );
     } catch (error) {
-      console.error("Error fetching posts:", error);
-    } finally {
-      setLoading(false);
+      console.error("Error refreshing post:", error);
     }
   };
 
   return (
     <Layout>
       <div className="max-w-2xl mx-auto space-y-6 pb-20 md:pb-6">
+        <StoryTray />
+
         {loading ? (
           <div className="flex justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
@@ -68,13 +154,30 @@ const Home = () => {
             </p>
           </div>
         ) : (
-          posts.map((post) => (
-            <PostCard key={post.id} post={post} onUpdate={fetchPosts} />
-          ))
+          <>
+            {posts.map((post) => (
+              <PostCard
+                key={post.id}
+                post={post}
+                onUpdate={() => refreshPost(post.id)}
+              />
+            ))}
+            {hasMore ? (
+              <div ref={sentinelRef} className="flex justify-center py-6">
+                {loadingMore && (
+                  <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                )}
+              </div>
+            ) : (
+              <p className="text-center text-sm text-muted-foreground py-6">
+                You're all caught up
+              </p>
+            )}
+          </>
         )}
       </div>
     </Layout>
   );
 };
 
-export default Home;
\ No newline at end of file
+export default Home;
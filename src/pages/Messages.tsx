@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import ConversationAvatar from "@/components/ConversationAvatar";
+import NewMessageDialog from "@/components/NewMessageDialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2, PenSquare } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+import { fetchInbox, getConversationName, type InboxConversation } from "@/lib/messages";
+
+const getPreview = (conversation: InboxConversation, currentUserId: string | null) => {
+  if (!conversation.last_message_at) return "No messages yet";
+
+  const prefix = conversation.last_message_sender_id === currentUserId ? "You: " : "";
+  if (conversation.last_message_content) {
+    return prefix + conversation.last_message_content;
+  }
+  return conversation.last_message_shared_post ? `${prefix}Sent a post` : `${prefix}Sent a message`;
+};
+
+const Messages = () => {
+  const [conversations, setConversations] = useState<InboxConversation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [newMessageOpen, setNewMessageOpen] = useState(false);
+
+  useEffect(() => {
+    loadInbox();
+
+    supabase.auth.getUser().then(({ data: { user } }) => {
+      setCurrentUserId(user?.id ?? null);
+    });
+
+    // RLS limits the stream to conversations the user is part of
+    const channel = supabase
+      .channel("inbox")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "messages" },
+        () => loadInbox()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const loadInbox = async () => {
+    try {
+      setConversations(await fetchInbox());
+    } catch (error) {
+      console.error("Error fetching conversations:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">Messages</h1>
+          <Button variant="ghost" size="icon" onClick={() => setNewMessageOpen(true)}>
+            <PenSquare className="h-5 w-5" />
+            <span className="sr-only">New message</span>
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : conversations.length === 0 ? (
+          <Card className="p-12 text-center space-y-4">
+            <p className="text-muted-foreground">No messages yet</p>
+            <Button onClick={() => setNewMessageOpen(true)}>Send a message</Button>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {conversations.map((conversation) => {
+              const unread = conversation.unread_count > 0;
+
+              return (
+                <Link key={conversation.id} to={`/direct/${conversation.id}`} className="block">
+                  <Card
+                    className={cn(
+                      "p-4 hover:bg-muted/50 transition-colors",
+                      unread && "bg-accent/5"
+                    )}
+                  >
+                    <div className="flex items-center gap-4">
+                      <ConversationAvatar
+                        isGroup={conversation.is_group}
+                        participants={conversation.participants}
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className={cn("text-sm truncate", unread ? "font-bold" : "font-semibold")}>
+                          {getConversationName(conversation)}
+                        </p>
+                        <p
+                          className={cn(
+                            "text-sm truncate",
+                            unread ? "text-foreground font-medium" : "text-muted-foreground"
+                          )}
+                        >
+                          {getPreview(conversation, currentUserId)}
+                          {conversation.last_message_at && (
+                            <span className="text-muted-foreground font-normal">
+                              {" · "}
+                              {formatDistanceToNow(new Date(conversation.last_message_at), {
+                                addSuffix: true,
+                              })}
+                            </span>
+                          )}
+                        </p>
+                      </div>
+                      {unread && (
+                        <span className="flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1.5 text-xs font-semibold text-primary-foreground">
+                          {conversation.unread_count}
+                        </span>
+                      )}
+                    </div>
+                  </Card>
+                </Link>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <NewMessageDialog
+        currentUserId={currentUserId}
+        open={newMessageOpen}
+        onOpenChange={setNewMessageOpen}
+      />
+    </Layout>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getPushSubscription,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/lib/push";
+
+type Preferences = Omit<Tables<"notification_preferences">, "user_id" | "updated_at">;
+
+interface Mute {
+  id: string;
+  post_id: string | null;
+  muted_user: {
+    username: string;
+    avatar_url: string | null;
+  } | null;
+  post: {
+    media_url: string;
+    poster_url: string | null;
+    media_variants: Json | null;
+    blurhash: string | null;
+  } | null;
+}
+
+const DEFAULT_PREFERENCES: Preferences = {
+  likes_enabled: true,
+  comments_enabled: true,
+  follows_enabled: true,
+  mentions_enabled: true,
+  only_following: false,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: "UTC",
+};
+
+const TYPE_SETTINGS = [
+  { key: "likes_enabled", label: "Likes", description: "When someone likes your post" },
+  { key: "comments_enabled", label: "Comments", description: "When someone comments on your post" },
+  { key: "follows_enabled", label: "New followers", description: "When someone starts following you" },
+  { key: "mentions_enabled", label: "Mentions", description: "When someone mentions you in a post or comment" },
+] as const;
+
+const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" };
+
+const NotificationSettings = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [preferences, setPreferences] = useState<Preferences>(DEFAULT_PREFERENCES);
+  const [mutes, setMutes] = useState<Mute[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [pushUpdating, setPushUpdating] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+    getPushSubscription().then((subscription) => setPushEnabled(!!subscription));
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const [{ data: prefs, error: prefsError }, { data: muteRows, error: mutesError }] =
+        await Promise.all([
+          supabase
+            .from("notification_preferences")
+            .select("*")
+            .eq("user_id", user.id)
+            .maybeSingle(),
+          supabase
+            .from("notification_mutes")
+            .select(
+              `
+              id,
+              post_id,
+              muted_user:profiles!notification_mutes_muted_user_id_fkey (username, avatar_url),
+              post:posts (media_url, poster_url, media_variants, blurhash)
+            `
+            )
+            .eq("user_id", user.id)
+            .order("created_at", { ascending: false }),
+        ]);
+
+      if (prefsError) throw prefsError;
+      if (mutesError) throw mutesError;
+
+      if (prefs) {
+        const { user_id, updated_at, ...rest } = prefs;
+        setPreferences(rest);
+      }
+      setMutes((muteRows as unknown as Mute[]) || []);
+    } catch (error) {
+      console.error("Error fetching notification settings:", error);
+      toast.error("Failed to load notification settings");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Settings save as soon as they change
+  const updatePreferences = async (changes: Partial<Preferences>) => {
+    if (!userId) return;
+
+    const previous = preferences;
+    const next = {
+      ...preferences,
+      ...changes,
+      // Quiet hours follow the device's current timezone
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+    };
+    setPreferences(next);
+
+    const { error } = await supabase
+      .from("notification_preferences")
+      .upsert({ user_id: userId, ...next });
+
+    if (error) {
+      console.error("Error saving notification settings:", error);
+      toast.error("Failed to save notification settings");
+      setPreferences(previous);
+    }
+  };
+
+  const handlePushChange = async (enabled: boolean) => {
+    setPushUpdating(true);
+    try {
+      if (enabled) {
+        await subscribeToPush();
+      } else {
+        await unsubscribeFromPush();
+      }
+      setPushEnabled(enabled);
+    } catch (error) {
+      console.error("Error updating push notifications:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to update push notifications"
+      );
+    } finally {
+      setPushUpdating(false);
+    }
+  };
+
+  const handleUnmute = async (mute: Mute) => {
+    const { error } = await supabase.from("notification_mutes").delete().eq("id", mute.id);
+
+    if (error) {
+      toast.error("Failed to unmute");
+      return;
+    }
+    setMutes((prev) => prev.filter((m) => m.id !== mute.id));
+  };
+
+  const quietHoursEnabled = preferences.quiet_hours_start !== null;
+
+  return (
+    <Layout>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" asChild>
+            <Link to="/notifications">
+              <ArrowLeft className="h-5 w-5" />
+              <span className="sr-only">Back to notifications</span>
+            </Link>
+          </Button>
+          <h1 className="text-2xl font-bold">Notification settings</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            {isPushSupported() && (
+              <Card className="p-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor="push" className="font-semibold">
+                      Push notifications
+                    </Label>
+                    <p className="text-sm text-muted-foreground">
+                      Get notified on this device even when the app is closed
+                    </p>
+                  </div>
+                  <Switch
+                    id="push"
+                    checked={pushEnabled}
+                    disabled={pushUpdating}
+                    onCheckedChange={handlePushChange}
+                  />
+                </div>
+              </Card>
+            )}
+
+            <Card className="p-6 space-y-5">
+              <h2 className="font-semibold">Notify me about</h2>
+              {TYPE_SETTINGS.map((setting) => (
+                <div key={setting.key} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={setting.key}>{setting.label}</Label>
+                    <p className="text-sm text-muted-foreground">{setting.description}</p>
+                  </div>
+                  <Switch
+                    id={setting.key}
+                    checked={preferences[setting.key]}
+                    onCheckedChange={(checked) => updatePreferences({ [setting.key]: checked })}
+                  />
+                </div>
+              ))}
+
+              <div className="flex items-center justify-between gap-4 border-t pt-5">
+                <div>
+                  <Label htmlFor="only_following">Only from people I follow</Label>
+                  <p className="text-sm text-muted-foreground">
+                    Ignore activity from accounts you don't follow
+                  </p>
+                </div>
+                <Switch
+                  id="only_following"
+                  checked={preferences.only_following}
+                  onCheckedChange={(checked) => updatePreferences({ only_following: checked })}
+                />
+              </div>
+            </Card>
+
+            <Card className="p-6 space-y-5">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="quiet_hours" className="font-semibold">
+                    Quiet hours
+                  </Label>
+                  <p className="text-sm text-muted-foreground">
+                    Silence push and in-app alerts during these hours
+                  </p>
+                </div>
+                <Switch
+                  id="quiet_hours"
+                  checked={quietHoursEnabled}
+                  onCheckedChange={(checked) =>
+                    updatePreferences({
+                      quiet_hours_start: checked ? DEFAULT_QUIET_HOURS.start : null,
+                      quiet_hours_end: checked ? DEFAULT_QUIET_HOURS.end : null,
+                    })
+                  }
+                />
+              </div>
+
+              {quietHoursEnabled && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="quiet_hours_start">From</Label>
+                    <Input
+                      id="quiet_hours_start"
+                      type="time"
+                      value={preferences.quiet_hours_start?.slice(0, 5) ?? ""}
+                      onChange={(e) =>
+                        e.target.value && updatePreferences({ quiet_hours_start: e.target.value })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="quiet_hours_end">Until</Label>
+                    <Input
+                      id="quiet_hours_end"
+                      type="time"
+                      value={preferences.quiet_hours_end?.slice(0, 5) ?? ""}
+                      onChange={(e) =>
+                        e.target.value && updatePreferences({ quiet_hours_end: e.target.value })
+                      }
+                    />
+                  </div>
+                  <p className="col-span-2 text-xs text-muted-foreground">
+                    Times are in {preferences.timezone}
+                  </p>
+                </div>
+              )}
+            </Card>
+
+            <Card className="p-6 space-y-4">
+              <h2 className="font-semibold">Muted</h2>
+              {mutes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Mute a post or account from its notification to stop hearing about it.
+                </p>
+              ) : (
+                mutes.map((mute) => (
+                  <div key={mute.id} className="flex items-center gap-3">
+                    {mute.muted_user ? (
+                      <Link
+                        to={`/u/${mute.muted_user.username}`}
+                        className="flex flex-1 items-center gap-3"
+                      >
+                        <Avatar className="h-10 w-10">
+                          <AvatarImage src={mute.muted_user.avatar_url || undefined} />
+                          <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                            {mute.muted_user.username[0].toUpperCase()}
+                          </AvatarFallback>
+                        </Avatar>
+                        <span className="text-sm font-semibold">{mute.muted_user.username}</span>
+                      </Link>
+                    ) : (
+                      <Link to={`/p/${mute.post_id}`} className="flex flex-1 items-center gap-3">
+                        {mute.post && (
+                          <ResponsiveImage
+                            src={mute.post.poster_url ?? mute.post.media_url}
+                            variants={mute.post.media_variants}
+                            blurhash={mute.post.blurhash}
+                            sizes="40px"
+                            className="h-10 w-10 shrink-0 rounded"
+                          />
+                        )}
+                        <span className="text-sm">Post</span>
+                      </Link>
+                    )}
+                    <Button variant="outline" size="sm" onClick={() => handleUnmute(mute)}>
+                      Unmute
+                    </Button>
+                  </div>
+                ))
+              )}
+            </Card>
+          </>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default NotificationSettings;
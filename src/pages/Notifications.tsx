@@ -1,77 +1,234 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import Layout from "@/components/Layout";
+import ResponsiveImage from "@/components/ResponsiveImage";
+import NotificationActorsDialog from "@/components/NotificationActorsDialog";
+import FollowRequests from "@/components/FollowRequests";
+import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Heart, MessageCircle, UserPlus, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Heart,
+  MessageCircle,
+  UserPlus,
+  UserCheck,
+  Loader2,
+  X,
+  Settings,
+  MoreHorizontal,
+  BellOff,
+} from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { useNotifications } from "@/hooks/use-notifications";
+import {
+  formatActorNames,
+  getNotificationAction,
+  muteNotifications,
+  type NotificationActor,
+  type NotificationMuteTarget,
+} from "@/lib/notifications";
 
-interface Notification {
-  id: string;
+interface NotificationGroup {
+  group_key: string;
   type: string;
-  created_at: string;
+  post_id: string | null;
+  comment_id: string | null;
+  latest_at: string;
   is_read: boolean;
-  actor_profile: {
-    username: string;
-    avatar_url: string | null;
-  };
-  post?: {
+  actor_count: number;
+  notification_ids: string[];
+  actors: NotificationActor[];
+  post: {
     media_url: string;
-  };
+    poster_url: string | null;
+    media_variants: Json | null;
+    blurhash: string | null;
+  } | null;
 }
 
+const PAGE_SIZE = 20;
+
+// How long an unread notification must stay on screen to count as seen
+const VIEW_DURATION_MS = 1000;
+
 const Notifications = () => {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+  const [groups, setGroups] = useState<NotificationGroup[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [expandedGroup, setExpandedGroup] = useState<NotificationGroup | null>(null);
 
-  useEffect(() => {
-    fetchNotifications();
-    markAllAsRead();
+  const { markAsRead, markAllAsRead, subscribe } = useNotifications();
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const viewTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const fetchPage = useCallback(async (cursor?: NotificationGroup) => {
+    const { data, error } = await supabase.rpc("get_notification_groups", {
+      _cursor_latest_at: cursor?.latest_at,
+      _cursor_key: cursor?.group_key,
+      _limit: PAGE_SIZE,
+    });
+
+    if (error) throw error;
+    return (data as unknown as NotificationGroup[]) || [];
   }, []);
 
-  const fetchNotifications = async () => {
-    try {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) return;
+  useEffect(() => {
+    const fetchFirstPage = async () => {
+      try {
+        const page = await fetchPage();
+        setGroups(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("Error fetching notifications:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [fetchPage]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (loadingMore || !hasMore || groups.length === 0) return;
 
-      const { data, error } = await supabase
-        .from("notifications")
-        .select(
-          `
-          *,
-          actor_profile:profiles!notifications_actor_id_fkey (username, avatar_url),
-          post:posts (media_url)
-        `
-        )
-        .eq("user_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(50);
-
-      if (error) throw error;
-      setNotifications((data as any) || []);
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(groups[groups.length - 1]);
+      setGroups((prev) => [
+        ...prev,
+        ...page.filter((group) => !prev.some((g) => g.group_key === group.group_key)),
+      ]);
+      setHasMore(page.length === PAGE_SIZE);
     } catch (error) {
-      console.error("Error fetching notifications:", error);
+      console.error("Error fetching more notifications:", error);
     } finally {
-      setLoading(false);
+      setLoadingMore(false);
     }
+  }, [fetchPage, hasMore, loadingMore, groups]);
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          fetchNextPage();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [fetchNextPage]);
+
+  // New activity may join an existing group, so refresh the newest groups
+  // and move them to the top
+  useEffect(
+    () =>
+      subscribe(async () => {
+        try {
+          const page = await fetchPage();
+          const keys = new Set(page.map((group) => group.group_key));
+          setGroups((prev) => [...page, ...prev.filter((g) => !keys.has(g.group_key))]);
+        } catch (error) {
+          console.error("Error refreshing notifications:", error);
+        }
+      }),
+    [subscribe, fetchPage]
+  );
+
+  const handleRead = useCallback(
+    (group: NotificationGroup) => {
+      setGroups((prev) =>
+        prev.map((g) => (g.group_key === group.group_key ? { ...g, is_read: true } : g))
+      );
+      markAsRead(group.notification_ids);
+    },
+    [markAsRead]
+  );
+
+  // A notification counts as seen once it has been on screen for a moment
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const timers = viewTimersRef.current;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          const key = (entry.target as HTMLElement).dataset.groupKey!;
+          if (entry.isIntersecting && document.visibilityState === "visible") {
+            if (!timers.has(key)) {
+              timers.set(
+                key,
+                setTimeout(() => {
+                  const group = groups.find((g) => g.group_key === key);
+                  if (group) handleRead(group);
+                }, VIEW_DURATION_MS)
+              );
+            }
+          } else {
+            clearTimeout(timers.get(key));
+            timers.delete(key);
+          }
+        }
+      },
+      { threshold: 0.6 }
+    );
+
+    list.querySelectorAll("[data-group-key]").forEach((node) => observer.observe(node));
+    return () => {
+      observer.disconnect();
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [groups, handleRead]);
+
+  const handleMarkAllAsRead = async () => {
+    setGroups((prev) => prev.map((g) => ({ ...g, is_read: true })));
+    await markAllAsRead();
   };
 
-  const markAllAsRead = async () => {
+  const handleMute = async (target: NotificationMuteTarget) => {
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
       if (!user) return;
 
-      await supabase
-        .from("notifications")
-        .update({ is_read: true })
-        .eq("user_id", user.id)
-        .eq("is_read", false);
+      await muteNotifications(user.id, target);
+      toast.success("Notifications muted", {
+        action: { label: "Settings", onClick: () => navigate("/settings/notifications") },
+      });
     } catch (error) {
-      console.error("Error marking notifications as read:", error);
+      console.error("Error muting notifications:", error);
+      toast.error("Failed to mute notifications");
+    }
+  };
+
+  const handleGroupClick = (group: NotificationGroup) => {
+    if (!group.is_read) handleRead(group);
+    if (group.post_id) {
+      navigate(`/p/${group.post_id}`);
+    } else if (group.actor_count === 1 && group.actors[0]) {
+      navigate(`/u/${group.actors[0].username}`);
+    } else {
+      setExpandedGroup(group);
     }
   };
 
@@ -83,91 +240,199 @@ const Notifications = () => {
         return <MessageCircle className="h-5 w-5 text-primary" />;
       case "follow":
         return <UserPlus className="h-5 w-5 text-accent" />;
+      case "follow_request_accepted":
+        return <UserCheck className="h-5 w-5 text-accent" />;
       default:
         return null;
     }
   };
 
-  const getNotificationText = (notification: Notification) => {
-    const username = notification.actor_profile.username;
-    switch (notification.type) {
-      case "like":
-        return `${username} liked your post`;
-      case "comment":
-        return `${username} commented on your post`;
-      case "follow":
-        return `${username} started following you`;
-      case "mention":
-        return `${username} mentioned you in a comment`;
-      default:
-        return `${username} interacted with your content`;
-    }
-  };
-
   return (
     <Layout>
       <div className="max-w-2xl mx-auto pb-20 md:pb-6">
-        <h1 className="text-2xl font-bold mb-6">Notifications</h1>
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold">Notifications</h1>
+          <div className="flex items-center gap-2">
+            {groups.some((g) => !g.is_read) && (
+              <Button variant="ghost" size="sm" onClick={handleMarkAllAsRead}>
+                Mark all as read
+              </Button>
+            )}
+            <Button variant="ghost" size="icon" asChild>
+              <Link to="/settings/notifications">
+                <Settings className="h-5 w-5" />
+                <span className="sr-only">Notification settings</span>
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        <FollowRequests />
 
         {loading ? (
           <div className="flex justify-center py-12">
             <Loader2 className="h-8 w-8 animate-spin text-primary" />
           </div>
-        ) : notifications.length === 0 ? (
+        ) : groups.length === 0 ? (
           <Card className="p-12 text-center">
             <p className="text-muted-foreground">No notifications yet</p>
           </Card>
         ) : (
-          <div className="space-y-2">
-            {notifications.map((notification) => (
-              <Card
-                key={notification.id}
-                className={`p-4 hover:bg-muted/50 transition-colors cursor-pointer ${
-                  !notification.is_read ? "bg-accent/5" : ""
-                }`}
-              >
-                <div className="flex items-center gap-4">
-                  <Avatar className="h-12 w-12 border-2 border-gradient-to-br from-accent to-primary">
-                    <AvatarImage
-                      src={notification.actor_profile.avatar_url || undefined}
-                    />
-                    <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
-                      {notification.actor_profile.username[0].toUpperCase()}
-                    </AvatarFallback>
-                  </Avatar>
-
-                  <div className="flex-1">
-                    <p className="text-sm">
-                      <span className="font-semibold">
-                        {notification.actor_profile.username}
-                      </span>{" "}
-                      {getNotificationText(notification).split(notification.actor_profile.username)[1]}
-                    </p>
-                    <p className="text-xs text-muted-foreground">
-                      {formatDistanceToNow(new Date(notification.created_at), {
-                        addSuffix: true,
-                      })}
-                    </p>
-                  </div>
+          <div ref={listRef} className="space-y-2">
+            {groups.map((group) => {
+              const [firstActor, secondActor] = group.actors;
+
+              return (
+                <Card
+                  key={group.group_key}
+                  data-group-key={group.is_read ? undefined : group.group_key}
+                  onClick={() => handleGroupClick(group)}
+                  className={`p-4 hover:bg-muted/50 transition-colors cursor-pointer ${
+                    !group.is_read ? "bg-accent/5" : ""
+                  }`}
+                >
+                  <div className="flex items-center gap-4">
+                    {/* Overlapping avatars for the two most recent actors */}
+                    <div className="relative h-12 w-12 shrink-0">
+                      {[secondActor, firstActor].map(
+                        (actor, index) =>
+                          actor && (
+                            <Avatar
+                              key={actor.id}
+                              className={
+                                secondActor
+                                  ? `absolute h-9 w-9 border-2 border-background ${
+                                      index === 0 ? "top-0 left-0" : "bottom-0 right-0"
+                                    }`
+                                  : "h-12 w-12"
+                              }
+                            >
+                              <AvatarImage src={actor.avatar_url || undefined} />
+                              <AvatarFallback className="bg-gradient-to-br from-accent to-primary text-white">
+                                {actor.username[0].toUpperCase()}
+                              </AvatarFallback>
+                            </Avatar>
+                          )
+                      )}
+                    </div>
+
+                    <div className="flex-1">
+                      <p className="text-sm">
+                        {group.actor_count === 1 && firstActor ? (
+                          <Link
+                            to={`/u/${firstActor.username}`}
+                            onClick={(e) => e.stopPropagation()}
+                            className="font-semibold hover:underline"
+                          >
+                            {firstActor.username}
+                          </Link>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setExpandedGroup(group);
+                            }}
+                            className="font-semibold hover:underline text-left"
+                          >
+                            {formatActorNames(group.actors, group.actor_count)}
+                          </button>
+                        )}{" "}
+                        {getNotificationAction(group.type, group.comment_id)}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(new Date(group.latest_at), {
+                          addSuffix: true,
+                        })}
+                      </p>
+                    </div>
 
-                  <div className="flex items-center gap-3">
-                    {getNotificationIcon(notification.type)}
-                    {notification.post && (
-                      <img
-                        src={notification.post.media_url}
-                        alt="Post"
-                        className="h-12 w-12 object-cover rounded"
-                      />
-                    )}
+                    <div className="flex items-center gap-3">
+                      {!group.is_read && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleRead(group);
+                          }}
+                        >
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">Dismiss</span>
+                        </Button>
+                      )}
+                      {getNotificationIcon(group.type)}
+                      {(group.post_id || group.actor_count === 1) && (
+                        // Menu items render in a portal but their clicks still
+                        // bubble to the card through React
+                        <div onClick={(e) => e.stopPropagation()}>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" className="h-8 w-8">
+                                <MoreHorizontal className="h-4 w-4" />
+                                <span className="sr-only">More options</span>
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              {group.post_id && (
+                                <DropdownMenuItem
+                                  onClick={() => handleMute({ postId: group.post_id! })}
+                                >
+                                  <BellOff className="h-4 w-4 mr-2" />
+                                  Mute notifications for this post
+                                </DropdownMenuItem>
+                              )}
+                              {group.actor_count === 1 && firstActor && (
+                                <DropdownMenuItem
+                                  onClick={() => handleMute({ mutedUserId: firstActor.id })}
+                                >
+                                  <BellOff className="h-4 w-4 mr-2" />
+                                  Mute notifications from {firstActor.username}
+                                </DropdownMenuItem>
+                              )}
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </div>
+                      )}
+                      {group.post && (
+                        <ResponsiveImage
+                          src={group.post.poster_url ?? group.post.media_url}
+                          variants={group.post.media_variants}
+                          blurhash={group.post.blurhash}
+                          sizes="48px"
+                          className="h-12 w-12 shrink-0 rounded"
+                        />
+                      )}
+                    </div>
                   </div>
-                </div>
-              </Card>
-            ))}
+                </Card>
+              );
+            })}
+
+            <div ref={sentinelRef} />
+            {loadingMore && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {expandedGroup && (
+        <NotificationActorsDialog
+          title={getNotificationAction(expandedGroup.type, expandedGroup.comment_id).replace(
+            /^./,
+            (c) => c.toUpperCase()
+          )}
+          notificationIds={expandedGroup.notification_ids}
+          open={!!expandedGroup}
+          onOpenChange={(open) => !open && setExpandedGroup(null)}
+        />
+      )}
     </Layout>
   );
 };
 
-export default Notifications;
\ No newline at end of file
+export default Notifications;
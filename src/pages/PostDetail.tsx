@@ -0,0 +1,101 @@
+import { useCallback, useEffect, useState } from "react";
+import { useParams, Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import PostCard from "@/components/PostCard";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+interface Post {
+  id: string;
+  user_id: string;
+  media_url: string;
+  media_type: string;
+  aspect_ratio: number;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
+  caption: string | null;
+  location: string | null;
+  created_at: string;
+  profiles: {
+    username: string;
+    avatar_url: string | null;
+  };
+  likes: { id: string }[];
+  comments: { id: string }[];
+  saves: { id: string }[];
+  post_media: {
+    id: string;
+    position: number;
+    media_url: string;
+    media_type: string;
+    variants: Json | null;
+    blurhash: string | null;
+    poster_url: string | null;
+  }[];
+}
+
+const PostDetail = () => {
+  const { postId } = useParams<{ postId: string }>();
+  const [post, setPost] = useState<Post | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchPost = useCallback(async () => {
+    if (!postId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("posts")
+        .select(
+          `
+          *,
+          profiles (username, avatar_url),
+          likes (id),
+          comments (id),
+          saves (id),
+          post_media (id, position, media_url, media_type, variants, blurhash, poster_url)
+        `
+        )
+        .eq("id", postId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setPost(data as unknown as Post | null);
+    } catch (error) {
+      console.error("Error fetching post:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [postId]);
+
+  useEffect(() => {
+    fetchPost();
+  }, [fetchPost]);
+
+  return (
+    <Layout requireAuth={false}>
+      <div className="max-w-2xl mx-auto pb-20 md:pb-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !post ? (
+          <Card className="p-12 text-center space-y-2">
+            <p className="text-muted-foreground">
+              This post isn't available. It may have been deleted.
+            </p>
+            <Link to="/" className="text-sm text-primary hover:underline">
+              Return to Home
+            </Link>
+          </Card>
+        ) : (
+          <PostCard key={post.id} post={post} onUpdate={fetchPost} />
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default PostDetail;
@@ -1,31 +1,83 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import Layout from "@/components/Layout";
+import PostThumbnail from "@/components/PostThumbnail";
+import EditProfileDialog, { type EditableProfile } from "@/components/EditProfileDialog";
+import FollowListDialog, { type FollowList } from "@/components/FollowListDialog";
+import { followUser, unfollowUser, type FollowStatus } from "@/lib/follows";
+import { blockUser, muteUser, unmuteUser } from "@/lib/blocks";
+import ReportDialog from "@/components/ReportDialog";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Grid, Bookmark, Settings, Loader2 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Grid,
+  Bookmark,
+  Settings,
+  Loader2,
+  UserPlus,
+  UserCheck,
+  Clock,
+  Lock,
+  MoreHorizontal,
+  VolumeX,
+  Volume2,
+  Ban,
+  Flag,
+} from "lucide-react";
 import { toast } from "sonner";
 
 interface Profile {
+  id: string;
   username: string;
   full_name: string | null;
   bio: string | null;
   avatar_url: string | null;
   website: string | null;
+  is_private: boolean;
 }
 
 interface Post {
   id: string;
   media_url: string;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
+  duration: number | null;
   media_type: string;
   likes: { id: string }[];
   comments: { id: string }[];
 }
 
 const Profile = () => {
+  const { username } = useParams<{ username: string }>();
+  const navigate = useNavigate();
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [followStatus, setFollowStatus] = useState<FollowStatus>("none");
+  const [isMuted, setIsMuted] = useState(false);
+  const [blockOpen, setBlockOpen] = useState(false);
+  const [reportOpen, setReportOpen] = useState(false);
+  const [followLoading, setFollowLoading] = useState(false);
   const [posts, setPosts] = useState<Post[]>([]);
   const [savedPosts, setSavedPosts] = useState<Post[]>([]);
   const [stats, setStats] = useState({
@@ -34,26 +86,35 @@ const Profile = () => {
     followingCount: 0,
   });
   const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [followList, setFollowList] = useState<FollowList>("followers");
+  const [followListOpen, setFollowListOpen] = useState(false);
 
-  useEffect(() => {
-    fetchProfileData();
-  }, []);
+  const isOwnProfile = !!profile && profile.id === currentUserId;
+  const isContentHidden =
+    !!profile && profile.is_private && !isOwnProfile && followStatus !== "following";
 
-  const fetchProfileData = async () => {
+  const fetchProfileData = useCallback(async () => {
     try {
       const {
         data: { user },
       } = await supabase.auth.getUser();
-      if (!user) return;
+      setCurrentUserId(user?.id ?? null);
+
+      // Fetch profile, either the one in the URL or the viewer's own
+      let profileQuery = supabase.from("profiles").select("*");
+      if (username) {
+        profileQuery = profileQuery.eq("username", username);
+      } else if (user) {
+        profileQuery = profileQuery.eq("id", user.id);
+      } else {
+        return;
+      }
 
-      // Fetch profile
-      const { data: profileData } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
+      const { data: profileData } = await profileQuery.maybeSingle();
 
       setProfile(profileData);
+      if (!profileData) return;
 
       // Fetch posts
       const { data: postsData } = await supabase
@@ -62,47 +123,96 @@ const Profile = () => {
           `
           id,
           media_url,
+          media_variants,
+          blurhash,
+          poster_url,
+          duration,
           media_type,
           likes (id),
           comments (id)
         `
         )
-        .eq("user_id", user.id)
+        .eq("user_id", profileData.id)
         .order("created_at", { ascending: false });
 
       setPosts(postsData || []);
 
-      // Fetch saved posts
-      const { data: savedData } = await supabase
-        .from("saves")
-        .select(
+      // Fetch saved posts (only visible to the owner)
+      if (user && user.id === profileData.id) {
+        const { data: savedData } = await supabase
+          .from("saves")
+          .select(
+            `
+            posts (
+              id,
+              media_url,
+              media_variants,
+              blurhash,
+              poster_url,
+              duration,
+              media_type,
+              likes (id),
+              comments (id)
+            )
           `
-          posts (
-            id,
-            media_url,
-            media_type,
-            likes (id),
-            comments (id)
           )
-        `
-        )
-        .eq("user_id", user.id);
+          .eq("user_id", user.id);
+
+        // Saved posts from private accounts the viewer no longer follows come back empty
+        setSavedPosts(savedData?.map((s: any) => s.posts).filter(Boolean) || []);
+      } else {
+        setSavedPosts([]);
+      }
 
-      setSavedPosts(savedData?.map((s: any) => s.posts) || []);
+      // Check whether the viewer follows this profile, has asked to, or has
+      // muted it
+      if (user && user.id !== profileData.id) {
+        const [{ data: followData }, { data: requestData }, { data: muteData }] = await Promise.all([
+          supabase
+            .from("follows")
+            .select("id")
+            .eq("follower_id", user.id)
+            .eq("following_id", profileData.id)
+            .maybeSingle(),
+          supabase
+            .from("follow_requests")
+            .select("id")
+            .eq("requester_id", user.id)
+            .eq("target_id", profileData.id)
+            .maybeSingle(),
+          supabase
+            .from("mutes")
+            .select("id")
+            .eq("user_id", user.id)
+            .eq("muted_user_id", profileData.id)
+            .maybeSingle(),
+        ]);
+
+        setFollowStatus(followData ? "following" : requestData ? "requested" : "none");
+        setIsMuted(!!muteData);
+      } else {
+        setFollowStatus("none");
+        setIsMuted(false);
+      }
+
+      // Fetch stats. Private posts are hidden from the query above, so count
+      // them separately.
+      const { data: postsCount } = await supabase.rpc("count_user_posts", {
+        _user_id: profileData.id,
+      });
 
-      // Fetch stats
       const { count: followersCount } = await supabase
         .from("follows")
         .select("*", { count: "exact", head: true })
-        .eq("following_id", user.id);
+        .eq("following_id", profileData.id);
 
       const { count: followingCount } = await supabase
         .from("follows")
         .select("*", { count: "exact", head: true })
-        .eq("follower_id", user.id);
+        .eq("follower_id", profileData.id);
 
       setStats({
-        postsCount: postsData?.length || 0,
+        postsCount: postsCount ?? postsData?.length ?? 0,
         followersCount: followersCount || 0,
         followingCount: followingCount || 0,
       });
@@ -112,11 +222,87 @@ const Profile = () => {
     } finally {
       setLoading(false);
     }
+  }, [username]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchProfileData();
+  }, [fetchProfileData]);
+
+  const handleFollow = async () => {
+    if (!profile) return;
+    if (!currentUserId) {
+      toast.error("Log in to follow people");
+      return;
+    }
+
+    setFollowLoading(true);
+    try {
+      const status =
+        followStatus === "none"
+          ? await followUser(currentUserId, profile)
+          : await unfollowUser(currentUserId, profile.id, followStatus);
+
+      const followerDelta =
+        status === "following" ? 1 : followStatus === "following" ? -1 : 0;
+      setStats((prev) => ({
+        ...prev,
+        followersCount: prev.followersCount + followerDelta,
+      }));
+      setFollowStatus(status);
+
+      // Unfollowing a private account takes its posts away
+      if (profile.is_private && status === "none") {
+        setPosts([]);
+      }
+    } catch (error) {
+      toast.error("Failed to update follow");
+    } finally {
+      setFollowLoading(false);
+    }
+  };
+
+  const handleToggleMute = async () => {
+    if (!profile || !currentUserId) return;
+
+    try {
+      if (isMuted) {
+        await unmuteUser(currentUserId, profile.id);
+        toast.success(`Unmuted ${profile.username}`);
+      } else {
+        await muteUser(currentUserId, profile.id);
+        toast.success(`Muted ${profile.username}. Their posts won't appear in your feed.`);
+      }
+      setIsMuted(!isMuted);
+    } catch (error) {
+      toast.error(isMuted ? "Failed to unmute" : "Failed to mute");
+    }
+  };
+
+  const handleBlock = async () => {
+    if (!profile || !currentUserId) return;
+
+    try {
+      await blockUser(currentUserId, profile.id);
+      toast.success(`Blocked ${profile.username}`);
+      // The profile is hidden from us from now on
+      navigate("/", { replace: true });
+    } catch (error) {
+      toast.error("Failed to block");
+    }
+  };
+
+  const handleProfileSaved = (updated: EditableProfile) => {
+    setProfile(updated);
+    // Keep the URL pointing at the renamed profile
+    if (username && updated.username !== username) {
+      navigate(`/u/${updated.username}`, { replace: true });
+    }
   };
 
   if (loading) {
     return (
-      <Layout>
+      <Layout requireAuth={!username}>
         <div className="flex justify-center py-12">
           <Loader2 className="h-8 w-8 animate-spin text-primary" />
         </div>
@@ -126,7 +312,7 @@ const Profile = () => {
 
   if (!profile) {
     return (
-      <Layout>
+      <Layout requireAuth={!username}>
         <div className="text-center py-12">
           <p className="text-muted-foreground">Profile not found</p>
         </div>
@@ -135,7 +321,7 @@ const Profile = () => {
   }
 
   return (
-    <Layout>
+    <Layout requireAuth={!username}>
       <div className="max-w-4xl mx-auto pb-20 md:pb-6">
         {/* Profile Header */}
         <Card className="p-6 mb-6">
@@ -150,10 +336,68 @@ const Profile = () => {
             <div className="flex-1 space-y-4">
               <div className="flex items-center justify-between">
                 <h1 className="text-2xl font-bold">{profile.username}</h1>
-                <Button variant="outline" size="sm">
-                  <Settings className="h-4 w-4 mr-2" />
-                  Edit Profile
-                </Button>
+                {isOwnProfile ? (
+                  <Button variant="outline" size="sm" onClick={() => setEditOpen(true)}>
+                    <Settings className="h-4 w-4 mr-2" />
+                    Edit Profile
+                  </Button>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant={followStatus === "none" ? "default" : "outline"}
+                      size="sm"
+                      onClick={handleFollow}
+                      disabled={followLoading}
+                    >
+                      {followStatus === "following" ? (
+                        <UserCheck className="h-4 w-4 mr-2" />
+                      ) : followStatus === "requested" ? (
+                        <Clock className="h-4 w-4 mr-2" />
+                      ) : (
+                        <UserPlus className="h-4 w-4 mr-2" />
+                      )}
+                      {followStatus === "following"
+                        ? "Unfollow"
+                        : followStatus === "requested"
+                          ? "Requested"
+                          : "Follow"}
+                    </Button>
+                    {currentUserId && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-5 w-5" />
+                            <span className="sr-only">More options</span>
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={handleToggleMute}>
+                            {isMuted ? (
+                              <Volume2 className="h-4 w-4 mr-2" />
+                            ) : (
+                              <VolumeX className="h-4 w-4 mr-2" />
+                            )}
+                            {isMuted ? "Unmute" : "Mute"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setBlockOpen(true)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Ban className="h-4 w-4 mr-2" />
+                            Block
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setReportOpen(true)}
+                            className="text-destructive focus:text-destructive"
+                          >
+                            <Flag className="h-4 w-4 mr-2" />
+                            Report
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="flex gap-6">
@@ -161,14 +405,28 @@ const Profile = () => {
                   <p className="font-bold text-lg">{stats.postsCount}</p>
                   <p className="text-sm text-muted-foreground">Posts</p>
                 </div>
-                <div className="text-center">
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFollowList("followers");
+                    setFollowListOpen(true);
+                  }}
+                  className="text-center hover:opacity-75 transition-opacity"
+                >
                   <p className="font-bold text-lg">{stats.followersCount}</p>
                   <p className="text-sm text-muted-foreground">Followers</p>
-                </div>
-                <div className="text-center">
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setFollowList("following");
+                    setFollowListOpen(true);
+                  }}
+                  className="text-center hover:opacity-75 transition-opacity"
+                >
                   <p className="font-bold text-lg">{stats.followingCount}</p>
                   <p className="text-sm text-muted-foreground">Following</p>
-                </div>
+                </button>
               </div>
 
               {profile.full_name && (
@@ -190,65 +448,130 @@ const Profile = () => {
         </Card>
 
         {/* Posts Grid */}
-        <Tabs defaultValue="posts" className="w-full">
-          <TabsList className="w-full grid grid-cols-2 mb-6">
-            <TabsTrigger value="posts" className="gap-2">
-              <Grid className="h-4 w-4" />
-              Posts
-            </TabsTrigger>
-            <TabsTrigger value="saved" className="gap-2">
-              <Bookmark className="h-4 w-4" />
-              Saved
-            </TabsTrigger>
-          </TabsList>
-
-          <TabsContent value="posts">
-            {posts.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-muted-foreground">No posts yet</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-3 gap-1 md:gap-2">
-                {posts.map((post) => (
-                  <div
-                    key={post.id}
-                    className="aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity"
-                  >
-                    <img
-                      src={post.media_url}
-                      alt="Post"
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                ))}
-              </div>
-            )}
-          </TabsContent>
+        {isContentHidden ? (
+          <Card className="p-12 text-center space-y-2">
+            <Lock className="h-8 w-8 mx-auto text-muted-foreground" />
+            <p className="font-semibold">This account is private</p>
+            <p className="text-sm text-muted-foreground">
+              Follow this account to see their photos and videos.
+            </p>
+          </Card>
+        ) : (
+          <Tabs defaultValue="posts" className="w-full">
+            <TabsList
+              className={`w-full grid mb-6 ${isOwnProfile ? "grid-cols-2" : "grid-cols-1"}`}
+            >
+              <TabsTrigger value="posts" className="gap-2">
+                <Grid className="h-4 w-4" />
+                Posts
+              </TabsTrigger>
+              {isOwnProfile && (
+                <TabsTrigger value="saved" className="gap-2">
+                  <Bookmark className="h-4 w-4" />
+                  Saved
+                </TabsTrigger>
+              )}
+            </TabsList>
 
-          <TabsContent value="saved">
-            {savedPosts.length === 0 ? (
-              <div className="text-center py-12">
-                <p className="text-muted-foreground">No saved posts yet</p>
-              </div>
-            ) : (
-              <div className="grid grid-cols-3 gap-1 md:gap-2">
-                {savedPosts.map((post) => (
-                  <div
-                    key={post.id}
-                    className="aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity"
-                  >
-                    <img
-                      src={post.media_url}
-                      alt="Post"
-                      className="w-full h-full object-cover"
-                    />
-                  </div>
-                ))}
-              </div>
-            )}
-          </TabsContent>
-        </Tabs>
+            <TabsContent value="posts">
+              {posts.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">No posts yet</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-1 md:gap-2">
+                  {posts.map((post) => (
+                    <Link
+                      key={post.id}
+                      to={`/p/${post.id}`}
+                      className="block aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity"
+                    >
+                      <PostThumbnail
+                        post={post}
+                        sizes="(min-width: 768px) 300px, 33vw"
+                      />
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="saved">
+              {savedPosts.length === 0 ? (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">No saved posts yet</p>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-1 md:gap-2">
+                  {savedPosts.map((post) => (
+                    <Link
+                      key={post.id}
+                      to={`/p/${post.id}`}
+                      className="block aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity"
+                    >
+                      <PostThumbnail
+                        post={post}
+                        sizes="(min-width: 768px) 300px, 33vw"
+                      />
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
       </div>
+
+      <FollowListDialog
+        userId={profile.id}
+        list={followList}
+        currentUserId={currentUserId}
+        open={followListOpen}
+        onOpenChange={setFollowListOpen}
+        onFollowingChange={(delta) => {
+          // Only the viewer's own following count is on screen
+          if (isOwnProfile) {
+            setStats((prev) => ({ ...prev, followingCount: prev.followingCount + delta }));
+          }
+        }}
+        onFollowerRemoved={() =>
+          setStats((prev) => ({ ...prev, followersCount: prev.followersCount - 1 }))
+        }
+      />
+
+      {isOwnProfile && (
+        <EditProfileDialog
+          profile={profile}
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          onSaved={handleProfileSaved}
+        />
+      )}
+
+      {!isOwnProfile && (
+        <ReportDialog
+          target={{ type: "profile", id: profile.id }}
+          currentUserId={currentUserId}
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+        />
+      )}
+
+      <AlertDialog open={blockOpen} onOpenChange={setBlockOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Block {profile.username}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They won't be able to find your profile, posts or stories, and you'll stop
+              following each other. They won't be notified that you blocked them.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleBlock}>Block</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </Layout>
   );
 };
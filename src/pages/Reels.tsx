@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import ReelItem, { type Reel } from "@/components/ReelItem";
+import { Clapperboard, Loader2 } from "lucide-react";
+
+const PAGE_SIZE = 5;
+
+const REEL_SELECT = `
+  *,
+  profiles (username, avatar_url),
+  likes (id),
+  comments (id)
+`;
+
+const Reels = () => {
+  const [reels, setReels] = useState<Reel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [muted, setMuted] = useState(true);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const fetchPage = useCallback(async (cursor?: Reel) => {
+    const { data, error } = await supabase
+      .rpc("get_reels_feed", {
+        _cursor_created_at: cursor?.created_at,
+        _cursor_id: cursor?.id,
+        _limit: PAGE_SIZE,
+      })
+      .select(REEL_SELECT);
+
+    if (error) throw error;
+    return (data as unknown as Reel[]) || [];
+  }, []);
+
+  useEffect(() => {
+    const fetchFirstPage = async () => {
+      try {
+        const page = await fetchPage();
+        setReels(page);
+        setHasMore(page.length === PAGE_SIZE);
+      } catch (error) {
+        console.error("Error fetching reels:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchFirstPage();
+  }, [fetchPage]);
+
+  const fetchNextPage = useCallback(async () => {
+    if (loadingMore || !hasMore || reels.length === 0) return;
+
+    setLoadingMore(true);
+    try {
+      const page = await fetchPage(reels[reels.length - 1]);
+      setReels((prev) => [...prev, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error("Error fetching more reels:", error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [fetchPage, hasMore, loadingMore, reels]);
+
+  // The reel filling most of the viewport is the one that plays
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        for (const entry of entries) {
+          if (entry.isIntersecting) {
+            setActiveIndex(Number((entry.target as HTMLElement).dataset.index));
+          }
+        }
+      },
+      { root: container, threshold: 0.6 }
+    );
+
+    container.querySelectorAll("[data-index]").forEach((item) => observer.observe(item));
+    return () => observer.disconnect();
+  }, [reels]);
+
+  // Keep a couple of reels queued up ahead of the viewer
+  useEffect(() => {
+    if (activeIndex >= reels.length - 2) {
+      fetchNextPage();
+    }
+  }, [activeIndex, reels.length, fetchNextPage]);
+
+  return (
+    <Layout>
+      <div className="max-w-md mx-auto">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : reels.length === 0 ? (
+          <div className="text-center py-12 space-y-2">
+            <Clapperboard className="mx-auto h-12 w-12 text-muted-foreground" />
+            <p className="text-muted-foreground">No reels yet</p>
+          </div>
+        ) : (
+          <div
+            ref={containerRef}
+            className="h-[calc(100dvh-11rem)] md:h-[calc(100dvh-7rem)] overflow-y-scroll snap-y snap-mandatory rounded-lg bg-black [scrollbar-width:none] [&::-webkit-scrollbar]:hidden"
+          >
+            {reels.map((reel, index) => (
+              <div key={reel.id} data-index={index} className="h-full snap-start snap-always">
+                <ReelItem
+                  reel={reel}
+                  active={index === activeIndex}
+                  preload={index === activeIndex + 1}
+                  muted={muted}
+                  onToggleMute={() => setMuted(!muted)}
+                />
+              </div>
+            ))}
+            {loadingMore && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-white" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Reels;
@@ -0,0 +1,142 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import Layout from "@/components/Layout";
+import PostThumbnail from "@/components/PostThumbnail";
+import { Card } from "@/components/ui/card";
+import { Hash, Loader2 } from "lucide-react";
+
+interface Hashtag {
+  id: string;
+  name: string;
+  post_count: number;
+}
+
+interface Post {
+  id: string;
+  media_url: string;
+  media_type: string;
+  media_variants: Json | null;
+  blurhash: string | null;
+  poster_url: string | null;
+  duration: number | null;
+  likes: { id: string }[];
+  comments: { id: string }[];
+}
+
+const Tag = () => {
+  const { name } = useParams<{ name: string }>();
+  const [hashtag, setHashtag] = useState<Hashtag | null>(null);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTagPosts = useCallback(async () => {
+    if (!name) return;
+
+    try {
+      const { data: tagData, error: tagError } = await supabase
+        .from("hashtags")
+        .select("id, name, post_count")
+        .eq("name", name.toLowerCase())
+        .maybeSingle();
+
+      if (tagError) throw tagError;
+      setHashtag(tagData);
+      if (!tagData) {
+        setPosts([]);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("posts")
+        .select(
+          `
+          id,
+          media_url,
+          media_type,
+          media_variants,
+          blurhash,
+          poster_url,
+          duration,
+          likes (id),
+          comments (id),
+          post_hashtags!inner (hashtag_id)
+        `
+        )
+        .eq("post_hashtags.hashtag_id", tagData.id)
+        .order("created_at", { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setPosts((data as unknown as Post[]) || []);
+    } catch (error) {
+      console.error("Error fetching hashtag posts:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [name]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTagPosts();
+  }, [fetchTagPosts]);
+
+  return (
+    <Layout requireAuth={false}>
+      <div className="max-w-6xl mx-auto pb-20 md:pb-6">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="w-16 h-16 rounded-full bg-gradient-to-br from-accent to-primary flex items-center justify-center">
+            <Hash className="w-8 h-8 text-white" />
+          </div>
+          <div>
+            <h1 className="text-2xl font-bold">#{name?.toLowerCase()}</h1>
+            {hashtag && (
+              <p className="text-sm text-muted-foreground">
+                {hashtag.post_count}{" "}
+                {hashtag.post_count === 1 ? "post" : "posts"}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : posts.length === 0 ? (
+          <Card className="p-12 text-center">
+            <p className="text-muted-foreground">No posts with this hashtag yet</p>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-3 gap-1 md:gap-2">
+            {posts.map((post) => (
+              <Link
+                key={post.id}
+                to={`/p/${post.id}`}
+                className="block aspect-square bg-muted overflow-hidden cursor-pointer hover:opacity-75 transition-opacity group relative"
+              >
+                <PostThumbnail
+                  post={post}
+                  sizes="(min-width: 768px) 384px, 33vw"
+                />
+                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-6 text-white">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{post.likes.length}</span>
+                    <span className="text-sm">likes</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{post.comments.length}</span>
+                    <span className="text-sm">comments</span>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Tag;
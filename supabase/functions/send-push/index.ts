@@ -0,0 +1,109 @@
+// Sends a Web Push for a newly stored notification to each of the
+// recipient's devices. Called by the dispatch_push_notification trigger.
+// Notifications the recipient has muted or opted out of are never stored,
+// so everything that arrives here should be delivered.
+//
+// Secrets: PUSH_WEBHOOK_SECRET (the send_push_secret Vault entry),
+// VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT. The web app needs
+// the same public key as VITE_VAPID_PUBLIC_KEY.
+import { timingSafeEqual } from "jsr:@std/crypto@1/timing-safe-equal";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { buildPushPayload, sendPushes, type VapidDetails } from "./push.ts";
+
+interface SendPushOptions {
+  supabase: SupabaseClient;
+  webhookSecret: string | undefined;
+  vapid: VapidDetails;
+}
+
+const encoder = new TextEncoder();
+
+// The function is deployed without JWT verification, so the shared secret is
+// its only guard. Compare in constant time to avoid leaking it byte by byte.
+function isAuthorized(req: Request, webhookSecret: string) {
+  return timingSafeEqual(
+    encoder.encode(req.headers.get("Authorization") ?? ""),
+    encoder.encode(`Bearer ${webhookSecret}`)
+  );
+}
+
+export async function handleSendPush(
+  req: Request,
+  { supabase, webhookSecret, vapid }: SendPushOptions
+) {
+  if (!webhookSecret) {
+    console.error("PUSH_WEBHOOK_SECRET is not set");
+    return new Response("Push is not configured", { status: 500 });
+  }
+  if (!isAuthorized(req, webhookSecret)) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  try {
+    const { notification_id } = await req.json();
+
+    const { data: notification, error } = await supabase
+      .from("notifications")
+      .select("id, type, user_id, actor_id, post_id, comment_id")
+      .eq("id", notification_id)
+      .maybeSingle();
+
+    if (error) throw error;
+    // Retracted before we got to it, e.g. a quick like and unlike
+    if (!notification) return Response.json({ sent: 0 });
+
+    const { data: subscriptions, error: subscriptionsError } = await supabase
+      .from("push_subscriptions")
+      .select("id, endpoint, p256dh, auth")
+      .eq("user_id", notification.user_id);
+
+    if (subscriptionsError) throw subscriptionsError;
+    if (!subscriptions || subscriptions.length === 0) return Response.json({ sent: 0 });
+
+    // notifications.actor_id references auth.users, so PostgREST can't embed
+    // the profile and it has to be loaded separately
+    const { data: actor, error: actorError } = await supabase
+      .from("profiles")
+      .select("username, avatar_url")
+      .eq("id", notification.actor_id)
+      .maybeSingle();
+
+    if (actorError) throw actorError;
+
+    const expired = await sendPushes(
+      subscriptions,
+      buildPushPayload({ ...notification, actor }),
+      vapid
+    );
+
+    if (expired.length > 0) {
+      await supabase.from("push_subscriptions").delete().in("id", expired);
+    }
+
+    return Response.json({ sent: subscriptions.length - expired.length, expired: expired.length });
+  } catch (error) {
+    console.error("Error sending push:", error);
+    return new Response("Failed to send push", { status: 500 });
+  }
+}
+
+if (import.meta.main) {
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  const vapid = {
+    subject: Deno.env.get("VAPID_SUBJECT") ?? "mailto:admin@example.com",
+    publicKey: Deno.env.get("VAPID_PUBLIC_KEY")!,
+    privateKey: Deno.env.get("VAPID_PRIVATE_KEY")!,
+  };
+
+  Deno.serve((req) =>
+    handleSendPush(req, {
+      supabase,
+      webhookSecret: Deno.env.get("PUSH_WEBHOOK_SECRET"),
+      vapid,
+    })
+  );
+}
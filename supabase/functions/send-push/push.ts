@@ -0,0 +1,113 @@
+import webpush from "npm:web-push@3.6.7";
+
+export interface PushSubscriptionRow {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+export interface NotificationDetails {
+  id: string;
+  type: string;
+  post_id: string | null;
+  comment_id: string | null;
+  actor: {
+    username: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+  icon?: string;
+}
+
+export interface VapidDetails {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+}
+
+// Pushes that can't be delivered within a day aren't worth showing
+const PUSH_TTL_SECONDS = 60 * 60 * 24;
+
+// Mirrors getNotificationAction in src/lib/notifications.ts
+function getNotificationAction(type: string, commentId: string | null) {
+  switch (type) {
+    case "like":
+      return "liked your post";
+    case "comment":
+      return "commented on your post";
+    case "follow":
+      return "started following you";
+    case "follow_request_accepted":
+      return "accepted your follow request";
+    case "mention":
+      return commentId ? "mentioned you in a comment" : "mentioned you in a post";
+    default:
+      return "interacted with your content";
+  }
+}
+
+export function buildPushPayload(notification: NotificationDetails): PushPayload {
+  const username = notification.actor?.username;
+
+  return {
+    title: "SocialHub",
+    body: `${username ?? "Someone"} ${getNotificationAction(notification.type, notification.comment_id)}`,
+    url: notification.post_id
+      ? `/p/${notification.post_id}`
+      : username
+        ? `/u/${username}`
+        : "/notifications",
+    tag: notification.id,
+    icon: notification.actor?.avatar_url ?? undefined,
+  };
+}
+
+// Encrypt and deliver the payload to each subscription. Returns the ids of
+// subscriptions the push service no longer recognises so they can be removed.
+export async function sendPushes(
+  subscriptions: PushSubscriptionRow[],
+  payload: PushPayload,
+  vapid: VapidDetails
+) {
+  const expired: string[] = [];
+
+  await Promise.all(
+    subscriptions.map(async (subscription) => {
+      // web-push handles encryption and VAPID signing; the request itself
+      // goes through fetch so any endpoint URL works, including local stand-ins
+      const request = webpush.generateRequestDetails(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        JSON.stringify(payload),
+        { vapidDetails: vapid, TTL: PUSH_TTL_SECONDS }
+      );
+
+      try {
+        const response = await fetch(request.endpoint, {
+          method: request.method,
+          headers: request.headers,
+          body: request.body,
+        });
+
+        if (response.status === 404 || response.status === 410) {
+          expired.push(subscription.id);
+        } else if (!response.ok) {
+          console.error(`Push to ${subscription.endpoint} failed with ${response.status}`);
+        }
+      } catch (error) {
+        console.error(`Push to ${subscription.endpoint} failed:`, error);
+      }
+    })
+  );
+
+  return expired;
+}
@@ -0,0 +1,214 @@
+// Delivers pushes to local stand-ins for a browser push service and for the
+// Supabase REST API. Run with `deno test --allow-net supabase/functions/tests`.
+import { assert, assertEquals } from "jsr:@std/assert@1";
+import webpush from "npm:web-push@3.6.7";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { buildPushPayload, sendPushes } from "../send-push/push.ts";
+import { handleSendPush } from "../send-push/index.ts";
+
+interface ReceivedPush {
+  headers: Headers;
+  body: Uint8Array;
+}
+
+// Records every push it receives and answers with the given status
+function startPushEndpoint(status: number) {
+  const received: ReceivedPush[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+    received.push({ headers: req.headers, body: new Uint8Array(await req.arrayBuffer()) });
+    return new Response(null, { status });
+  });
+
+  return {
+    url: `http://localhost:${server.addr.port}/push/device`,
+    received,
+    close: () => server.shutdown(),
+  };
+}
+
+type Row = Record<string, unknown>;
+
+// A stand-in for PostgREST serving the tables the function reads. Embedded
+// selects fail, so the test catches a regression to embedding the actor.
+function startRestEndpoint(tables: Record<string, Row[]>) {
+  const deleted: string[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, (req) => {
+    const url = new URL(req.url);
+    const table = url.pathname.replace("/rest/v1/", "");
+    const select = url.searchParams.get("select") ?? "*";
+
+    if (select.includes("(")) {
+      return Response.json(
+        { code: "PGRST200", message: `Could not find a relationship for ${table}` },
+        { status: 400 }
+      );
+    }
+
+    const filters = [...url.searchParams].filter(([key]) => key !== "select");
+
+    if (req.method === "DELETE") {
+      for (const [, value] of filters) {
+        deleted.push(...value.replace(/^in\.\(|\)$/g, "").split(","));
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    const rows = (tables[table] ?? []).filter((row) =>
+      filters.every(([key, value]) => `eq.${row[key]}` === value)
+    );
+
+    if (req.headers.get("accept")?.includes("vnd.pgrst.object")) {
+      return rows.length === 1
+        ? Response.json(rows[0])
+        : Response.json({ code: "PGRST116" }, { status: 406 });
+    }
+    return Response.json(rows);
+  });
+
+  return {
+    url: `http://localhost:${server.addr.port}`,
+    deleted,
+    close: () => server.shutdown(),
+  };
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// The keys a browser would hand over from PushSubscription.toJSON()
+async function createBrowserKeys() {
+  const keyPair = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, [
+    "deriveBits",
+  ]);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey("raw", keyPair.publicKey));
+
+  return {
+    p256dh: toBase64Url(publicKey),
+    auth: toBase64Url(crypto.getRandomValues(new Uint8Array(16))),
+  };
+}
+
+const { publicKey, privateKey } = webpush.generateVAPIDKeys();
+const vapid = { subject: "mailto:test@example.com", publicKey, privateKey };
+
+const payload = buildPushPayload({
+  id: "notification-1",
+  type: "like",
+  post_id: "post-1",
+  comment_id: null,
+  actor: { username: "alice", avatar_url: null },
+});
+
+Deno.test("delivers an encrypted, VAPID-signed push", async () => {
+  const endpoint = startPushEndpoint(201);
+  try {
+    const expired = await sendPushes(
+      [{ id: "sub-1", endpoint: endpoint.url, ...(await createBrowserKeys()) }],
+      payload,
+      vapid
+    );
+
+    assertEquals(expired, []);
+    assertEquals(endpoint.received.length, 1);
+
+    const [push] = endpoint.received;
+    assertEquals(push.headers.get("content-encoding"), "aes128gcm");
+    assert(push.headers.get("authorization")?.startsWith("vapid t="));
+    assert(Number(push.headers.get("ttl")) > 0);
+    assert(!new TextDecoder().decode(push.body).includes("alice"), "payload is encrypted");
+  } finally {
+    await endpoint.close();
+  }
+});
+
+Deno.test("reports subscriptions the push service has dropped", async () => {
+  const gone = startPushEndpoint(410);
+  const live = startPushEndpoint(201);
+  try {
+    const expired = await sendPushes(
+      [
+        { id: "gone", endpoint: gone.url, ...(await createBrowserKeys()) },
+        { id: "live", endpoint: live.url, ...(await createBrowserKeys()) },
+      ],
+      payload,
+      vapid
+    );
+
+    assertEquals(expired, ["gone"]);
+    assertEquals(live.received.length, 1);
+  } finally {
+    await gone.close();
+    await live.close();
+  }
+});
+
+Deno.test("links to the post, or to the actor's profile for follows", () => {
+  assertEquals(payload.url, "/p/post-1");
+  assertEquals(payload.body, "alice liked your post");
+
+  const follow = buildPushPayload({
+    id: "notification-2",
+    type: "follow",
+    post_id: null,
+    comment_id: null,
+    actor: { username: "bob", avatar_url: null },
+  });
+  assertEquals(follow.url, "/u/bob");
+  assertEquals(follow.body, "bob started following you");
+});
+
+Deno.test("handler loads the actor separately and drops expired subscriptions", async () => {
+  const gone = startPushEndpoint(410);
+  const live = startPushEndpoint(201);
+  const rest = startRestEndpoint({
+    notifications: [
+      {
+        id: "notification-1",
+        type: "like",
+        user_id: "user-1",
+        actor_id: "user-2",
+        post_id: "post-1",
+        comment_id: null,
+      },
+    ],
+    profiles: [{ id: "user-2", username: "alice", avatar_url: null }],
+    push_subscriptions: [
+      { id: "gone", user_id: "user-1", endpoint: gone.url, ...(await createBrowserKeys()) },
+      { id: "live", user_id: "user-1", endpoint: live.url, ...(await createBrowserKeys()) },
+    ],
+  });
+
+  try {
+    const supabase = createClient(rest.url, "service-role-key", {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+    const options = { supabase, webhookSecret: "secret", vapid };
+    const request = (authorization: string) =>
+      new Request("http://localhost/send-push", {
+        method: "POST",
+        headers: { Authorization: authorization },
+        body: JSON.stringify({ notification_id: "notification-1" }),
+      });
+
+    const unauthorized = await handleSendPush(request("Bearer wrong"), options);
+    assertEquals(unauthorized.status, 401);
+    await unauthorized.body?.cancel();
+
+    const unconfigured = await handleSendPush(request("Bearer "), {
+      ...options,
+      webhookSecret: undefined,
+    });
+    assertEquals(unconfigured.status, 500);
+    await unconfigured.body?.cancel();
+
+    const response = await handleSendPush(request("Bearer secret"), options);
+    assertEquals(response.status, 200);
+    assertEquals(await response.json(), { sent: 1, expired: 1 });
+    assertEquals(live.received.length, 1);
+    assertEquals(rest.deleted, ["gone"]);
+  } finally {
+    await gone.close();
+    await live.close();
+    await rest.close();
+  }
+});
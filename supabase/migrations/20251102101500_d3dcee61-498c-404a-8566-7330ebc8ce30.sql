@@ -0,0 +1,42 @@
+-- Add parent reference to comments for one level of replies
+ALTER TABLE public.comments
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_comments_parent_id ON public.comments(parent_id);
+
+-- Ensure replies belong to the same post and only nest one level deep
+CREATE OR REPLACE FUNCTION public.validate_comment_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  parent RECORD;
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT post_id, parent_id INTO parent
+  FROM public.comments
+  WHERE id = NEW.parent_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Parent comment does not exist';
+  END IF;
+
+  IF parent.post_id <> NEW.post_id THEN
+    RAISE EXCEPTION 'Reply must belong to the same post as its parent';
+  END IF;
+
+  IF parent.parent_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Replies can only be one level deep';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_comments_parent
+  BEFORE INSERT OR UPDATE OF parent_id, post_id ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.validate_comment_parent();
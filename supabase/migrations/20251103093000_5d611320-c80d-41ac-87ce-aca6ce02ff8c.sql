@@ -0,0 +1,34 @@
+-- Home feed: posts from followed accounts plus the viewer's own, newest first.
+-- Paginated by a (created_at, id) keyset cursor so results stay stable while
+-- new posts arrive.
+CREATE OR REPLACE FUNCTION public.get_home_feed(
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE (
+    p.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM public.follows f
+      WHERE f.follower_id = auth.uid()
+      AND f.following_id = p.user_id
+    )
+  )
+  AND (
+    _cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+CREATE INDEX idx_posts_created_at_id ON public.posts(created_at DESC, id DESC);
+CREATE INDEX idx_posts_user_id_created_at ON public.posts(user_id, created_at DESC, id DESC);
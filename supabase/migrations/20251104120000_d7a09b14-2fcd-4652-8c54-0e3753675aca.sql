@@ -0,0 +1,101 @@
+-- Extract lowercase, de-duplicated hashtags from a caption
+CREATE OR REPLACE FUNCTION public.extract_hashtags(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT lower(m[1])), '{}')
+  FROM regexp_matches(COALESCE(_text, ''), '#([[:alnum:]_]{1,100})', 'g') AS m
+$$;
+
+-- Keep hashtags.post_count in step with post_hashtags, including cascaded
+-- deletes when a post is removed
+CREATE OR REPLACE FUNCTION public.update_hashtag_post_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.hashtags
+    SET post_count = post_count + 1
+    WHERE id = NEW.hashtag_id;
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.hashtags
+  SET post_count = GREATEST(post_count - 1, 0)
+  WHERE id = OLD.hashtag_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER update_hashtag_post_count
+  AFTER INSERT OR DELETE ON public.post_hashtags
+  FOR EACH ROW EXECUTE FUNCTION public.update_hashtag_post_count();
+
+-- Sync a post's hashtags whenever its caption is created or edited
+CREATE OR REPLACE FUNCTION public.sync_post_hashtags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tags TEXT[] := public.extract_hashtags(NEW.caption);
+BEGIN
+  INSERT INTO public.hashtags (name)
+  SELECT unnest(tags)
+  ON CONFLICT (name) DO NOTHING;
+
+  DELETE FROM public.post_hashtags ph
+  USING public.hashtags h
+  WHERE ph.post_id = NEW.id
+  AND ph.hashtag_id = h.id
+  AND NOT (h.name = ANY(tags));
+
+  INSERT INTO public.post_hashtags (post_id, hashtag_id)
+  SELECT NEW.id, h.id
+  FROM public.hashtags h
+  WHERE h.name = ANY(tags)
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_posts_hashtags
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_post_hashtags();
+
+-- Hashtag links are maintained by the trigger above; only let users link
+-- their own posts directly
+DROP POLICY "Authenticated users can create post hashtags" ON public.post_hashtags;
+
+CREATE POLICY "Users can create hashtags for their own posts"
+  ON public.post_hashtags FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_post_hashtags_hashtag_id ON public.post_hashtags(hashtag_id);
+CREATE INDEX idx_hashtags_post_count ON public.hashtags(post_count DESC);
+
+-- Backfill hashtags for existing posts
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT unnest(public.extract_hashtags(caption))
+FROM public.posts
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id)
+SELECT p.id, h.id
+FROM public.posts p
+CROSS JOIN LATERAL unnest(public.extract_hashtags(p.caption)) AS t(name)
+JOIN public.hashtags h ON h.name = t.name
+ON CONFLICT DO NOTHING;
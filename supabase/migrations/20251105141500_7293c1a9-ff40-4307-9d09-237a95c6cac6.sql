@@ -0,0 +1,53 @@
+-- Ordered media items for multi-image/video carousel posts.
+-- posts.media_url/media_type keep mirroring the first item so grids and
+-- existing single-media posts continue to work unchanged.
+CREATE TABLE public.post_media (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE NOT NULL,
+  position SMALLINT NOT NULL CHECK (position >= 0 AND position < 10),
+  media_url TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(post_id, position)
+);
+
+ALTER TABLE public.post_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Post media is viewable by everyone"
+  ON public.post_media FOR SELECT
+  USING (true);
+
+CREATE POLICY "Users can add media to their own posts"
+  ON public.post_media FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update media on their own posts"
+  ON public.post_media FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete media from their own posts"
+  ON public.post_media FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE INDEX idx_post_media_post_id ON public.post_media(post_id, position);
@@ -0,0 +1,5 @@
+-- Width / height ratio chosen when the post was edited, e.g. 1 (1:1),
+-- 0.8 (4:5) or 1.91 (1.91:1). Existing posts keep rendering as squares.
+ALTER TABLE public.posts
+  ADD COLUMN aspect_ratio REAL NOT NULL DEFAULT 1
+  CONSTRAINT aspect_ratio_range CHECK (aspect_ratio >= 0.5 AND aspect_ratio <= 2);
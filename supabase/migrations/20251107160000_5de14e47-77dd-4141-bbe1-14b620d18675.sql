@@ -0,0 +1,10 @@
+-- Responsive WebP variants ([{ "width": 320, "url": "..." }, ...]) and a
+-- blurhash placeholder for image media. Posts carry the cover's variants so
+-- grids don't need to join post_media.
+ALTER TABLE public.posts
+  ADD COLUMN media_variants JSONB,
+  ADD COLUMN blurhash TEXT;
+
+ALTER TABLE public.post_media
+  ADD COLUMN variants JSONB,
+  ADD COLUMN blurhash TEXT;
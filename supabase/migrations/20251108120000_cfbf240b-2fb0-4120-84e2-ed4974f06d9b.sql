@@ -0,0 +1,14 @@
+-- Poster frame, duration (seconds) and pixel dimensions for video media,
+-- captured in the browser at upload time. For videos, the image variants
+-- and blurhash describe the poster frame.
+ALTER TABLE public.posts
+  ADD COLUMN poster_url TEXT,
+  ADD COLUMN duration REAL CHECK (duration IS NULL OR duration >= 0),
+  ADD COLUMN width INTEGER CHECK (width IS NULL OR width > 0),
+  ADD COLUMN height INTEGER CHECK (height IS NULL OR height > 0);
+
+ALTER TABLE public.post_media
+  ADD COLUMN poster_url TEXT,
+  ADD COLUMN duration REAL CHECK (duration IS NULL OR duration >= 0),
+  ADD COLUMN width INTEGER CHECK (width IS NULL OR width > 0),
+  ADD COLUMN height INTEGER CHECK (height IS NULL OR height > 0);
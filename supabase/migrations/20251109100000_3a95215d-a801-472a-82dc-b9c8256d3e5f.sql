@@ -0,0 +1,26 @@
+-- Reels feed: every video post, newest first, keyset paginated like the
+-- home feed. Returns SETOF posts so PostgREST embeds keep working.
+CREATE OR REPLACE FUNCTION public.get_reels_feed(
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 5
+)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE p.media_type = 'video'
+  AND (
+    _cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+CREATE INDEX idx_posts_videos_created_at_id
+  ON public.posts(created_at DESC, id DESC)
+  WHERE media_type = 'video';
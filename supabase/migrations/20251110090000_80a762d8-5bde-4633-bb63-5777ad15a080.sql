@@ -0,0 +1,90 @@
+-- Stories: photos and videos that disappear 24 hours after posting.
+-- Expired rows are hidden by RLS, so every query excludes them without
+-- having to filter on expires_at itself.
+CREATE TABLE public.stories (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  media_url TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+  poster_url TEXT,
+  duration REAL CHECK (duration IS NULL OR duration >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  CHECK (expires_at > created_at)
+);
+
+-- One row per viewer per story so authors can see who watched
+CREATE TABLE public.story_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID REFERENCES public.stories(id) ON DELETE CASCADE NOT NULL,
+  viewer_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  viewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(story_id, viewer_id)
+);
+
+ALTER TABLE public.stories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_views ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for stories
+CREATE POLICY "Active stories are viewable by everyone"
+  ON public.stories FOR SELECT
+  USING (expires_at > NOW());
+
+CREATE POLICY "Users can create their own stories"
+  ON public.stories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own stories"
+  ON public.stories FOR DELETE
+  USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for story_views
+CREATE POLICY "Viewers and story authors can see views"
+  ON public.story_views FOR SELECT
+  USING (
+    auth.uid() = viewer_id
+    OR EXISTS (
+      SELECT 1
+      FROM public.stories
+      WHERE id = story_id
+      AND user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can record their own views of active stories"
+  ON public.story_views FOR INSERT
+  WITH CHECK (
+    auth.uid() = viewer_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.stories
+      WHERE id = story_id
+      AND user_id != auth.uid()
+    )
+  );
+
+CREATE INDEX idx_stories_user_id_expires_at ON public.stories(user_id, expires_at DESC);
+CREATE INDEX idx_story_views_story_id ON public.story_views(story_id, viewed_at DESC);
+
+-- Storage bucket for story media, laid out like the posts bucket
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('stories', 'stories', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can upload their own story media"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'stories' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Story media is publicly accessible"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'stories');
+
+CREATE POLICY "Users can delete their own story media"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'stories' AND
+    auth.uid()::text = (storage.foldername(name))[1]
+  );
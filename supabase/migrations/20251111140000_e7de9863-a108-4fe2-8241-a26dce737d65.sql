@@ -0,0 +1,242 @@
+-- Direct messages: one-to-one and small group conversations. Only
+-- participants can see a conversation, its members or its messages.
+CREATE TABLE public.conversations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  title TEXT CHECK (title IS NULL OR char_length(title) BETWEEN 1 AND 100),
+  is_group BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Time of the latest message, used to order the inbox
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- last_read_at drives both unread counts and read receipts
+CREATE TABLE public.conversation_participants (
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE public.messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  content TEXT CHECK (content IS NULL OR char_length(content) <= 2000),
+  -- A post shared into the conversation, rendered as a card. Kept as a
+  -- message with no post if the post is later deleted.
+  shared_post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Membership check that bypasses RLS, so participant policies don't
+-- recurse into themselves
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(_conversation_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_participants
+    WHERE conversation_id = _conversation_id
+    AND user_id = _user_id
+  )
+$$;
+
+-- RLS Policies for conversations
+CREATE POLICY "Participants can view their conversations"
+  ON public.conversations FOR SELECT
+  USING (public.is_conversation_participant(id, auth.uid()));
+
+-- RLS Policies for conversation_participants
+CREATE POLICY "Participants can view conversation members"
+  ON public.conversation_participants FOR SELECT
+  USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can update their own read state"
+  ON public.conversation_participants FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Membership itself is managed by create_conversation; clients may only
+-- move their own read marker
+REVOKE UPDATE ON public.conversation_participants FROM anon, authenticated;
+GRANT UPDATE (last_read_at) ON public.conversation_participants TO authenticated;
+
+CREATE POLICY "Users can leave conversations"
+  ON public.conversation_participants FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- RLS Policies for messages
+CREATE POLICY "Participants can view messages"
+  ON public.messages FOR SELECT
+  USING (public.is_conversation_participant(conversation_id, auth.uid()));
+
+CREATE POLICY "Participants can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_participant(conversation_id, auth.uid())
+    AND (char_length(btrim(content)) > 0 OR shared_post_id IS NOT NULL)
+  );
+
+-- Start a conversation with the given users. A one-to-one conversation
+-- that already exists is returned instead of creating a duplicate.
+CREATE OR REPLACE FUNCTION public.create_conversation(_participant_ids UUID[], _title TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _others UUID[];
+  _conversation_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT array_agg(DISTINCT p.id)
+  INTO _others
+  FROM public.profiles p
+  WHERE p.id = ANY(_participant_ids)
+  AND p.id != _user_id;
+
+  IF _others IS NULL THEN
+    RAISE EXCEPTION 'A conversation needs at least one other participant';
+  END IF;
+
+  IF array_length(_others, 1) > 31 THEN
+    RAISE EXCEPTION 'Group conversations are limited to 32 people';
+  END IF;
+
+  IF array_length(_others, 1) = 1 THEN
+    SELECT c.id
+    INTO _conversation_id
+    FROM public.conversations c
+    WHERE NOT c.is_group
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = _user_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = _others[1]
+    )
+    LIMIT 1;
+
+    IF _conversation_id IS NOT NULL THEN
+      RETURN _conversation_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.conversations (created_by, title, is_group)
+  VALUES (_user_id, NULLIF(btrim(_title), ''), array_length(_others, 1) > 1)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT _conversation_id, unnest(_others || _user_id);
+
+  RETURN _conversation_id;
+END;
+$$;
+
+-- Bump the conversation to the top of the inbox and mark it read for the
+-- sender whenever a message is sent
+CREATE OR REPLACE FUNCTION public.handle_new_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+  SET updated_at = NEW.created_at
+  WHERE id = NEW.conversation_id;
+
+  UPDATE public.conversation_participants
+  SET last_read_at = GREATEST(last_read_at, NEW.created_at)
+  WHERE conversation_id = NEW.conversation_id
+  AND user_id = NEW.sender_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_new_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_message();
+
+-- Inbox for the current user: one row per conversation with the other
+-- participants, the latest message and the number of unread messages
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  is_group BOOLEAN,
+  updated_at TIMESTAMPTZ,
+  participants JSONB,
+  last_message_content TEXT,
+  last_message_sender_id UUID,
+  last_message_shared_post BOOLEAN,
+  last_message_at TIMESTAMPTZ,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.title,
+    c.is_group,
+    c.updated_at,
+    COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object('id', p.id, 'username', p.username, 'avatar_url', p.avatar_url)
+        ORDER BY p.username
+      )
+      FROM public.conversation_participants other
+      JOIN public.profiles p ON p.id = other.user_id
+      WHERE other.conversation_id = c.id
+      AND other.user_id != auth.uid()
+    ), '[]'::jsonb),
+    last_message.content,
+    last_message.sender_id,
+    last_message.shared_post_id IS NOT NULL,
+    last_message.created_at,
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+      AND m.sender_id != auth.uid()
+      AND m.created_at > me.last_read_at
+    )
+  FROM public.conversation_participants me
+  JOIN public.conversations c ON c.id = me.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.sender_id, m.shared_post_id, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE me.user_id = auth.uid()
+  ORDER BY c.updated_at DESC
+$$;
+
+CREATE INDEX idx_conversation_participants_user_id ON public.conversation_participants(user_id);
+CREATE INDEX idx_messages_conversation_id_created_at ON public.messages(conversation_id, created_at DESC);
+
+-- Deliver new messages and read receipts over Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_participants;
@@ -0,0 +1,7 @@
+-- Stream notifications over Supabase Realtime so the unread badge and
+-- toasts update live. RLS keeps each user to their own rows.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+CREATE INDEX idx_notifications_user_id_unread
+  ON public.notifications(user_id)
+  WHERE NOT is_read;
@@ -0,0 +1,95 @@
+-- Grouped notifications for the current user. Notifications of the same
+-- type on the same post within the same UTC day collapse into one row
+-- ("alice, bob and 23 others liked your post"); mentions stay one per
+-- comment. Paginated by a (latest_at, group_key) keyset cursor.
+CREATE OR REPLACE FUNCTION public.get_notification_groups(
+  _cursor_latest_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_key TEXT DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  group_key TEXT,
+  type TEXT,
+  post_id UUID,
+  comment_id UUID,
+  latest_at TIMESTAMPTZ,
+  is_read BOOLEAN,
+  actor_count INTEGER,
+  notification_ids UUID[],
+  actors JSONB,
+  post JSONB
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH keyed AS (
+    SELECT
+      n.*,
+      concat_ws(
+        ':',
+        n.type,
+        n.post_id,
+        CASE WHEN n.type = 'mention' THEN n.comment_id END,
+        (n.created_at AT TIME ZONE 'UTC')::date
+      ) AS group_key
+    FROM public.notifications n
+    WHERE n.user_id = auth.uid()
+  ),
+  groups AS (
+    SELECT
+      k.group_key,
+      k.type,
+      k.post_id,
+      (array_agg(k.comment_id ORDER BY k.created_at DESC))[1] AS comment_id,
+      MAX(k.created_at) AS latest_at,
+      bool_and(k.is_read) AS is_read,
+      COUNT(DISTINCT k.actor_id)::INTEGER AS actor_count,
+      array_agg(k.id ORDER BY k.created_at DESC) AS notification_ids
+    FROM keyed k
+    GROUP BY k.group_key, k.type, k.post_id
+  )
+  SELECT
+    g.group_key,
+    g.type,
+    g.post_id,
+    g.comment_id,
+    g.latest_at,
+    g.is_read,
+    g.actor_count,
+    g.notification_ids,
+    -- The most recent few actors, enough for names and stacked avatars
+    COALESCE(recent_actors.actors, '[]'::jsonb),
+    CASE WHEN p.id IS NULL THEN NULL ELSE jsonb_build_object(
+      'media_url', p.media_url,
+      'poster_url', p.poster_url,
+      'media_variants', p.media_variants,
+      'blurhash', p.blurhash
+    ) END
+  FROM groups g
+  LEFT JOIN public.posts p ON p.id = g.post_id
+  LEFT JOIN LATERAL (
+    SELECT jsonb_agg(
+      jsonb_build_object('id', a.id, 'username', a.username, 'avatar_url', a.avatar_url)
+      ORDER BY a.last_at DESC
+    ) AS actors
+    FROM (
+      SELECT pr.id, pr.username, pr.avatar_url, MAX(k.created_at) AS last_at
+      FROM keyed k
+      JOIN public.profiles pr ON pr.id = k.actor_id
+      WHERE k.group_key = g.group_key
+      GROUP BY pr.id, pr.username, pr.avatar_url
+      ORDER BY last_at DESC
+      LIMIT 3
+    ) a
+  ) recent_actors ON true
+  WHERE (
+    _cursor_latest_at IS NULL
+    OR (g.latest_at, g.group_key) < (_cursor_latest_at, _cursor_key)
+  )
+  ORDER BY g.latest_at DESC, g.group_key DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+CREATE INDEX idx_notifications_user_id_created_at
+  ON public.notifications(user_id, created_at DESC);
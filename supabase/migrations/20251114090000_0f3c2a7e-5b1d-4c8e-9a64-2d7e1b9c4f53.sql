@@ -0,0 +1,159 @@
+-- Notifications are now written only by the triggers below, so clients can
+-- no longer create them for arbitrary recipients. Undoing an action (unlike,
+-- unfollow, removing a mention) retracts its notification.
+DROP POLICY "Authenticated users can create notifications" ON public.notifications;
+
+-- Recipients may only mark their notifications as read
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (is_read) ON public.notifications TO authenticated;
+
+-- Extract de-duplicated @usernames from a caption or comment. Mirrors
+-- MENTION_PATTERN in src/lib/mentions.ts.
+CREATE OR REPLACE FUNCTION public.extract_mentions(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]), '{}')
+  FROM regexp_matches(
+    COALESCE(_text, ''),
+    '(?<![[:alnum:]_@])@([[:alnum:]_](?:[[:alnum:]_.]{0,28}[[:alnum:]_])?)',
+    'g'
+  ) AS m
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_like()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notifications (user_id, actor_id, type, post_id)
+    SELECT p.user_id, NEW.user_id, 'like', NEW.post_id
+    FROM public.posts p
+    WHERE p.id = NEW.post_id
+    AND p.user_id <> NEW.user_id;
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'like'
+  AND actor_id = OLD.user_id
+  AND post_id = OLD.post_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER notify_likes
+  AFTER INSERT OR DELETE ON public.likes
+  FOR EACH ROW EXECUTE FUNCTION public.notify_like();
+
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.notifications (user_id, actor_id, type)
+    VALUES (NEW.following_id, NEW.follower_id, 'follow');
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'follow'
+  AND actor_id = OLD.follower_id
+  AND user_id = OLD.following_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER notify_follows
+  AFTER INSERT OR DELETE ON public.follows
+  FOR EACH ROW EXECUTE FUNCTION public.notify_follow();
+
+-- Deleting a comment removes its notifications through the comment_id
+-- foreign key, so only inserts need handling here
+CREATE OR REPLACE FUNCTION public.notify_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, actor_id, type, post_id, comment_id)
+  SELECT p.user_id, NEW.user_id, 'comment', NEW.post_id, NEW.id
+  FROM public.posts p
+  WHERE p.id = NEW.post_id
+  AND p.user_id <> NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_comments
+  AFTER INSERT ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.notify_comment();
+
+-- Keep "mention" notifications in step with a post caption or comment:
+-- newly mentioned users are notified once, and users edited out of the
+-- text have their notification retracted
+CREATE OR REPLACE FUNCTION public.sync_mention_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _post_id UUID;
+  _comment_id UUID;
+  _text TEXT;
+  mentioned UUID[];
+BEGIN
+  IF TG_TABLE_NAME = 'posts' THEN
+    _post_id := NEW.id;
+    _text := NEW.caption;
+  ELSE
+    _post_id := NEW.post_id;
+    _comment_id := NEW.id;
+    _text := NEW.content;
+  END IF;
+
+  SELECT COALESCE(array_agg(id), '{}') INTO mentioned
+  FROM public.profiles
+  WHERE username = ANY(public.extract_mentions(_text))
+  AND id <> NEW.user_id;
+
+  DELETE FROM public.notifications
+  WHERE type = 'mention'
+  AND post_id = _post_id
+  AND comment_id IS NOT DISTINCT FROM _comment_id
+  AND NOT (user_id = ANY(mentioned));
+
+  INSERT INTO public.notifications (user_id, actor_id, type, post_id, comment_id)
+  SELECT m.user_id, NEW.user_id, 'mention', _post_id, _comment_id
+  FROM unnest(mentioned) AS m(user_id)
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM public.notifications n
+    WHERE n.type = 'mention'
+    AND n.user_id = m.user_id
+    AND n.post_id = _post_id
+    AND n.comment_id IS NOT DISTINCT FROM _comment_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_posts_mention_notifications
+  AFTER INSERT OR UPDATE OF caption ON public.posts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_mention_notifications();
+
+CREATE TRIGGER sync_comments_mention_notifications
+  AFTER INSERT OR UPDATE OF content ON public.comments
+  FOR EACH ROW EXECUTE FUNCTION public.sync_mention_notifications();
+
+CREATE INDEX idx_notifications_post_id ON public.notifications(post_id);
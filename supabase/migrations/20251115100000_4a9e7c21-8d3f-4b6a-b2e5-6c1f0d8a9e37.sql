@@ -0,0 +1,131 @@
+-- Per-user notification settings. Users without a row get every
+-- notification, so the table only needs entries once someone changes a
+-- setting. Quiet hours are wall-clock times in the user's timezone and may
+-- wrap past midnight (e.g. 22:00 to 07:00).
+CREATE TABLE public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  likes_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  comments_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  follows_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  mentions_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  only_following BOOLEAN NOT NULL DEFAULT FALSE,
+  quiet_hours_start TIME,
+  quiet_hours_end TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT quiet_hours_complete CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL)),
+  -- Raises for unknown zone names
+  CONSTRAINT timezone_valid CHECK ((NOW() AT TIME ZONE timezone) IS NOT NULL)
+);
+
+-- Posts or accounts a user no longer wants notifications about
+CREATE TABLE public.notification_mutes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  muted_user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT mute_target CHECK (num_nonnulls(muted_user_id, post_id) = 1),
+  CHECK (user_id <> muted_user_id),
+  UNIQUE(user_id, muted_user_id),
+  UNIQUE(user_id, post_id)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+  ON public.notification_preferences FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own notification preferences"
+  ON public.notification_preferences FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own notification preferences"
+  ON public.notification_preferences FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own mutes"
+  ON public.notification_mutes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own mutes"
+  ON public.notification_mutes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own mutes"
+  ON public.notification_mutes FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Drop notifications the recipient has opted out of before they are stored,
+-- whichever trigger created them
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.notification_preferences;
+  local_time TIME;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.notification_mutes
+    WHERE user_id = NEW.user_id
+    AND (muted_user_id = NEW.actor_id OR post_id = NEW.post_id)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO prefs
+  FROM public.notification_preferences
+  WHERE user_id = NEW.user_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT CASE NEW.type
+    WHEN 'like' THEN prefs.likes_enabled
+    WHEN 'comment' THEN prefs.comments_enabled
+    WHEN 'follow' THEN prefs.follows_enabled
+    WHEN 'mention' THEN prefs.mentions_enabled
+    ELSE TRUE
+  END THEN
+    RETURN NULL;
+  END IF;
+
+  IF prefs.only_following AND NOT EXISTS (
+    SELECT 1
+    FROM public.follows
+    WHERE follower_id = NEW.user_id
+    AND following_id = NEW.actor_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF prefs.quiet_hours_start IS NOT NULL THEN
+    local_time := (NOW() AT TIME ZONE prefs.timezone)::TIME;
+    IF CASE
+      WHEN prefs.quiet_hours_start <= prefs.quiet_hours_end THEN
+        local_time >= prefs.quiet_hours_start AND local_time < prefs.quiet_hours_end
+      ELSE
+        local_time >= prefs.quiet_hours_start OR local_time < prefs.quiet_hours_end
+    END THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_notifications_preferences
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.apply_notification_preferences();
@@ -0,0 +1,114 @@
+-- Web Push subscriptions, one row per browser/device. The endpoint is
+-- unique per device, so signing in as someone else on the same browser
+-- moves the subscription to the new account.
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  endpoint TEXT UNIQUE NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+  ON public.push_subscriptions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+  ON public.push_subscriptions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+  BEFORE UPDATE ON public.push_subscriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Save this device's subscription for the current user
+CREATE OR REPLACE FUNCTION public.register_push_subscription(
+  _endpoint TEXT,
+  _p256dh TEXT,
+  _auth TEXT,
+  _user_agent TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+-- Hand every stored notification to the send-push Edge Function. Muted and
+-- opted-out notifications are dropped before they are stored (see
+-- apply_notification_preferences), so they never reach this trigger.
+--
+-- The function URL and shared secret live in Vault; environments without
+-- them simply don't send pushes. For the local stack:
+--   SELECT vault.create_secret('http://host.docker.internal:54321/functions/v1/send-push', 'send_push_url');
+--   SELECT vault.create_secret('<PUSH_WEBHOOK_SECRET>', 'send_push_secret');
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.dispatch_push_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  function_url TEXT;
+  webhook_secret TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.push_subscriptions
+    WHERE user_id = NEW.user_id
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT decrypted_secret INTO function_url
+  FROM vault.decrypted_secrets
+  WHERE name = 'send_push_url';
+
+  SELECT decrypted_secret INTO webhook_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'send_push_secret';
+
+  IF function_url IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- pg_net sends the request after the transaction commits
+  PERFORM net.http_post(
+    url := function_url,
+    body := jsonb_build_object('notification_id', NEW.id),
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || COALESCE(webhook_secret, '')
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER dispatch_notifications_push
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.dispatch_push_notification();
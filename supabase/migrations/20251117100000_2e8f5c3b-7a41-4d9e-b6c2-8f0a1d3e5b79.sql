@@ -0,0 +1,63 @@
+-- Followers or following of a user with their profiles, newest first,
+-- optionally filtered by username or name. follows references auth.users,
+-- so the profiles can't be embedded through PostgREST directly.
+-- Paginated by a (followed_at, follow_id) keyset cursor.
+CREATE OR REPLACE FUNCTION public.get_follow_list(
+  _user_id UUID,
+  _list TEXT,
+  _search TEXT DEFAULT NULL,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  follow_id UUID,
+  followed_at TIMESTAMPTZ,
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  is_followed_by_viewer BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(_search, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT
+    f.id,
+    f.created_at,
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    EXISTS (
+      SELECT 1
+      FROM public.follows v
+      WHERE v.follower_id = auth.uid()
+      AND v.following_id = p.id
+    )
+  FROM public.follows f
+  JOIN public.profiles p
+    ON p.id = CASE WHEN _list = 'followers' THEN f.follower_id ELSE f.following_id END
+  CROSS JOIN pattern
+  WHERE CASE WHEN _list = 'followers' THEN f.following_id ELSE f.follower_id END = _user_id
+  AND (
+    NULLIF(_search, '') IS NULL
+    OR p.username ILIKE pattern.value
+    OR p.full_name ILIKE pattern.value
+  )
+  AND (
+    _cursor_created_at IS NULL
+    OR (f.created_at, f.id) < (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+-- Let users remove people from their own followers
+CREATE POLICY "Users can remove their followers"
+  ON public.follows FOR DELETE
+  USING (auth.uid() = following_id);
@@ -0,0 +1,301 @@
+-- Private accounts. Only the owner and approved followers can see a private
+-- user's posts, likes, comments and stories; everyone else has to send a
+-- follow request that the owner accepts or declines.
+ALTER TABLE public.profiles
+  ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE public.follow_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requester_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  target_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(requester_id, target_id),
+  CHECK (requester_id <> target_id)
+);
+
+ALTER TABLE public.follow_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_follow_requests_target_id ON public.follow_requests(target_id, created_at DESC);
+
+-- Whether the current user may see content owned by _owner_id
+CREATE OR REPLACE FUNCTION public.can_view_profile_content(_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    _owner_id = auth.uid()
+    OR NOT EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = _owner_id
+      AND is_private
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM public.follows
+      WHERE follower_id = auth.uid()
+      AND following_id = _owner_id
+    )
+$$;
+
+-- RLS Policies for follow_requests
+CREATE POLICY "Requesters and targets can view follow requests"
+  ON public.follow_requests FOR SELECT
+  USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+CREATE POLICY "Users can request to follow private accounts"
+  ON public.follow_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = requester_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = target_id
+      AND is_private
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.follows
+      WHERE follower_id = requester_id
+      AND following_id = target_id
+    )
+  );
+
+-- Requesters cancel, targets decline
+CREATE POLICY "Requesters and targets can delete follow requests"
+  ON public.follow_requests FOR DELETE
+  USING (auth.uid() = requester_id OR auth.uid() = target_id);
+
+-- Private accounts can only be followed through an accepted request
+DROP POLICY "Authenticated users can create follows" ON public.follows;
+
+CREATE POLICY "Users can follow public accounts"
+  ON public.follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = following_id
+      AND is_private
+    )
+  );
+
+-- Content visibility
+DROP POLICY "Posts are viewable by everyone" ON public.posts;
+
+CREATE POLICY "Posts are viewable by approved viewers"
+  ON public.posts FOR SELECT
+  USING (public.can_view_profile_content(user_id));
+
+DROP POLICY "Post media is viewable by everyone" ON public.post_media;
+
+CREATE POLICY "Post media is viewable with its post"
+  ON public.post_media FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+DROP POLICY "Likes are viewable by everyone" ON public.likes;
+
+CREATE POLICY "Likes are viewable with their post"
+  ON public.likes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+DROP POLICY "Authenticated users can create likes" ON public.likes;
+
+CREATE POLICY "Users can like posts they can see"
+  ON public.likes FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+DROP POLICY "Comments are viewable by everyone" ON public.comments;
+
+CREATE POLICY "Comments are viewable with their post"
+  ON public.comments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+DROP POLICY "Authenticated users can create comments" ON public.comments;
+
+CREATE POLICY "Users can comment on posts they can see"
+  ON public.comments FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+DROP POLICY "Active stories are viewable by everyone" ON public.stories;
+
+CREATE POLICY "Active stories are viewable by approved viewers"
+  ON public.stories FOR SELECT
+  USING (expires_at > NOW() AND public.can_view_profile_content(user_id));
+
+-- Notification for the requester once their request is accepted
+ALTER TABLE public.notifications DROP CONSTRAINT notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('like', 'comment', 'follow', 'mention', 'follow_request_accepted'));
+
+CREATE OR REPLACE FUNCTION public.accept_follow_request(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.follow_requests;
+BEGIN
+  DELETE FROM public.follow_requests
+  WHERE id = _request_id
+  AND target_id = auth.uid()
+  RETURNING * INTO request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Follow request not found';
+  END IF;
+
+  INSERT INTO public.follows (follower_id, following_id)
+  VALUES (request.requester_id, request.target_id)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.notifications (user_id, actor_id, type)
+  VALUES (request.requester_id, request.target_id, 'follow_request_accepted');
+END;
+$$;
+
+-- Going public lets everyone who was waiting in
+CREATE OR REPLACE FUNCTION public.approve_pending_follow_requests()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH approved AS (
+    DELETE FROM public.follow_requests
+    WHERE target_id = NEW.id
+    RETURNING requester_id, target_id
+  )
+  INSERT INTO public.follows (follower_id, following_id)
+  SELECT requester_id, target_id
+  FROM approved
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER approve_profiles_pending_follow_requests
+  AFTER UPDATE OF is_private ON public.profiles
+  FOR EACH ROW
+  WHEN (OLD.is_private AND NOT NEW.is_private)
+  EXECUTE FUNCTION public.approve_pending_follow_requests();
+
+-- Follow lists now say whether the viewer can follow directly or has a
+-- request pending
+DROP FUNCTION public.get_follow_list(UUID, TEXT, TEXT, TIMESTAMPTZ, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_follow_list(
+  _user_id UUID,
+  _list TEXT,
+  _search TEXT DEFAULT NULL,
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  follow_id UUID,
+  followed_at TIMESTAMPTZ,
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT,
+  is_private BOOLEAN,
+  is_followed_by_viewer BOOLEAN,
+  is_requested_by_viewer BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH pattern AS (
+    SELECT '%' || replace(replace(replace(_search, '\', '\\'), '%', '\%'), '_', '\_') || '%' AS value
+  )
+  SELECT
+    f.id,
+    f.created_at,
+    p.id,
+    p.username,
+    p.full_name,
+    p.avatar_url,
+    p.is_private,
+    EXISTS (
+      SELECT 1
+      FROM public.follows v
+      WHERE v.follower_id = auth.uid()
+      AND v.following_id = p.id
+    ),
+    EXISTS (
+      SELECT 1
+      FROM public.follow_requests r
+      WHERE r.requester_id = auth.uid()
+      AND r.target_id = p.id
+    )
+  FROM public.follows f
+  JOIN public.profiles p
+    ON p.id = CASE WHEN _list = 'followers' THEN f.follower_id ELSE f.following_id END
+  CROSS JOIN pattern
+  WHERE CASE WHEN _list = 'followers' THEN f.following_id ELSE f.follower_id END = _user_id
+  AND (
+    NULLIF(_search, '') IS NULL
+    OR p.username ILIKE pattern.value
+    OR p.full_name ILIKE pattern.value
+  )
+  AND (
+    _cursor_created_at IS NULL
+    OR (f.created_at, f.id) < (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY f.created_at DESC, f.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+-- Post counts stay public on private profiles even though the posts don't
+CREATE OR REPLACE FUNCTION public.count_user_posts(_user_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COUNT(*)::INTEGER
+  FROM public.posts
+  WHERE user_id = _user_id
+$$;
@@ -0,0 +1,263 @@
+-- Blocking and muting. A block cuts every tie between two accounts: follows
+-- and pending requests are removed, each side's profile, posts, stories and
+-- comments are hidden from the other, and they can no longer like, comment
+-- on, follow or notify each other. A mute only hides the muted account's
+-- posts from the muter's home feed, and the muted account can't tell.
+CREATE TABLE public.blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  blocker_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  blocked_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE TABLE public.mutes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  muted_user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, muted_user_id),
+  CHECK (user_id <> muted_user_id)
+);
+
+ALTER TABLE public.blocks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mutes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_blocks_blocked_id ON public.blocks(blocked_id);
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(_user_a UUID, _user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.blocks
+    WHERE (blocker_id = _user_a AND blocked_id = _user_b)
+    OR (blocker_id = _user_b AND blocked_id = _user_a)
+  )
+$$;
+
+-- RLS Policies for blocks. The blocked user never sees the row.
+CREATE POLICY "Users can view their own blocks"
+  ON public.blocks FOR SELECT
+  USING (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can block other users"
+  ON public.blocks FOR INSERT
+  WITH CHECK (auth.uid() = blocker_id);
+
+CREATE POLICY "Users can unblock users"
+  ON public.blocks FOR DELETE
+  USING (auth.uid() = blocker_id);
+
+-- RLS Policies for mutes
+CREATE POLICY "Users can view their own mutes"
+  ON public.mutes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mute other users"
+  ON public.mutes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can unmute users"
+  ON public.mutes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Undo everything that connects the two accounts
+CREATE OR REPLACE FUNCTION public.sever_blocked_relationships()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.follows
+  WHERE (follower_id = NEW.blocker_id AND following_id = NEW.blocked_id)
+  OR (follower_id = NEW.blocked_id AND following_id = NEW.blocker_id);
+
+  DELETE FROM public.follow_requests
+  WHERE (requester_id = NEW.blocker_id AND target_id = NEW.blocked_id)
+  OR (requester_id = NEW.blocked_id AND target_id = NEW.blocker_id);
+
+  DELETE FROM public.notifications
+  WHERE (user_id = NEW.blocker_id AND actor_id = NEW.blocked_id)
+  OR (user_id = NEW.blocked_id AND actor_id = NEW.blocker_id);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sever_blocks_relationships
+  AFTER INSERT ON public.blocks
+  FOR EACH ROW EXECUTE FUNCTION public.sever_blocked_relationships();
+
+-- Profiles
+DROP POLICY "Profiles are viewable by everyone" ON public.profiles;
+
+CREATE POLICY "Profiles are viewable by everyone they haven't blocked"
+  ON public.profiles FOR SELECT
+  USING (NOT public.is_blocked_between(auth.uid(), id));
+
+-- Posts, post media, likes and stories all go through this check, so a
+-- block hides them along with private content
+CREATE OR REPLACE FUNCTION public.can_view_profile_content(_owner_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    NOT public.is_blocked_between(auth.uid(), _owner_id)
+    AND (
+      _owner_id = auth.uid()
+      OR NOT EXISTS (
+        SELECT 1
+        FROM public.profiles
+        WHERE id = _owner_id
+        AND is_private
+      )
+      OR EXISTS (
+        SELECT 1
+        FROM public.follows
+        WHERE follower_id = auth.uid()
+        AND following_id = _owner_id
+      )
+    )
+$$;
+
+-- Comments by a blocked account are hidden even on other people's posts
+DROP POLICY "Comments are viewable with their post" ON public.comments;
+
+CREATE POLICY "Comments are viewable with their post"
+  ON public.comments FOR SELECT
+  USING (
+    NOT public.is_blocked_between(auth.uid(), user_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.posts
+      WHERE id = post_id
+    )
+  );
+
+-- Follows and follow requests
+DROP POLICY "Users can follow public accounts" ON public.follows;
+
+CREATE POLICY "Users can follow public accounts"
+  ON public.follows FOR INSERT
+  WITH CHECK (
+    auth.uid() = follower_id
+    AND NOT public.is_blocked_between(follower_id, following_id)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = following_id
+      AND is_private
+    )
+  );
+
+DROP POLICY "Users can request to follow private accounts" ON public.follow_requests;
+
+CREATE POLICY "Users can request to follow private accounts"
+  ON public.follow_requests FOR INSERT
+  WITH CHECK (
+    auth.uid() = requester_id
+    AND NOT public.is_blocked_between(requester_id, target_id)
+    AND EXISTS (
+      SELECT 1
+      FROM public.profiles
+      WHERE id = target_id
+      AND is_private
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.follows
+      WHERE follower_id = requester_id
+      AND following_id = target_id
+    )
+  );
+
+-- Notifications between blocked accounts are dropped, whichever trigger
+-- created them
+CREATE OR REPLACE FUNCTION public.drop_blocked_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_blocked_between(NEW.user_id, NEW.actor_id) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER drop_notifications_blocked
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.drop_blocked_notifications();
+
+-- Home feed without muted accounts
+CREATE OR REPLACE FUNCTION public.get_home_feed(
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 10
+)
+RETURNS SETOF public.posts
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.posts p
+  WHERE (
+    p.user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1
+      FROM public.follows f
+      WHERE f.follower_id = auth.uid()
+      AND f.following_id = p.user_id
+    )
+  )
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.mutes m
+    WHERE m.user_id = auth.uid()
+    AND m.muted_user_id = p.user_id
+  )
+  AND (
+    _cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 50)
+$$;
+
+-- Blocked profiles are hidden from the blocker too, so the management
+-- screen reads them through here
+CREATE OR REPLACE FUNCTION public.get_blocked_accounts()
+RETURNS TABLE (
+  block_id UUID,
+  blocked_at TIMESTAMPTZ,
+  id UUID,
+  username TEXT,
+  full_name TEXT,
+  avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT b.id, b.created_at, p.id, p.username, p.full_name, p.avatar_url
+  FROM public.blocks b
+  JOIN public.profiles p ON p.id = b.blocked_id
+  WHERE b.blocker_id = auth.uid()
+  ORDER BY b.created_at DESC
+$$;
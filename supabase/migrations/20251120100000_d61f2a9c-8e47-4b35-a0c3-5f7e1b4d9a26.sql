@@ -0,0 +1,260 @@
+-- Reporting and moderation. Anyone signed in can report a post, comment or
+-- profile; admins work through open reports by dismissing them, deleting the
+-- content or suspending its author. Every admin action is written to
+-- moderation_actions.
+ALTER TABLE public.profiles
+  ADD COLUMN suspended_at TIMESTAMPTZ;
+
+CREATE TABLE public.reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'profile')),
+  -- Cleared when the content is deleted, so resolved reports outlive it
+  post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE SET NULL,
+  profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (
+    reason IN ('spam', 'nudity', 'harassment', 'hate_speech', 'violence', 'false_information', 'other')
+  ),
+  details TEXT CHECK (char_length(details) <= 500),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  resolved_at TIMESTAMPTZ,
+  CHECK (num_nonnulls(post_id, comment_id, profile_id) <= 1)
+);
+
+CREATE TABLE public.moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  admin_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  report_id UUID REFERENCES public.reports(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('dismiss', 'delete_content', 'suspend_user')),
+  target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'profile')),
+  -- A plain id, since deleted content is gone by the time anyone reads this.
+  -- Null when the owner deleted it before the report was handled.
+  target_id UUID,
+  target_user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.moderation_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_reports_status_created_at ON public.reports(status, created_at, id);
+CREATE INDEX idx_moderation_actions_created_at ON public.moderation_actions(created_at DESC);
+
+-- RLS Policies for reports. Reports are resolved through moderate_report
+-- only, so there are no update or delete policies.
+CREATE POLICY "Users can report content they can see"
+  ON public.reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND status = 'open'
+    AND resolved_at IS NULL
+    AND CASE target_type
+      WHEN 'post' THEN EXISTS (SELECT 1 FROM public.posts WHERE id = post_id)
+      WHEN 'comment' THEN EXISTS (SELECT 1 FROM public.comments WHERE id = comment_id)
+      ELSE EXISTS (SELECT 1 FROM public.profiles WHERE id = profile_id)
+    END
+  );
+
+CREATE POLICY "Reporters and admins can view reports"
+  ON public.reports FOR SELECT
+  USING (auth.uid() = reporter_id OR public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for moderation_actions
+CREATE POLICY "Moderation actions are viewable by admins"
+  ON public.moderation_actions FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Suspended accounts can't publish anything new with a session they still hold
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles
+    WHERE id = _user_id
+    AND suspended_at IS NOT NULL
+  )
+$$;
+
+CREATE POLICY "Suspended users cannot post"
+  ON public.posts AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot comment"
+  ON public.comments AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot post stories"
+  ON public.stories AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot send messages"
+  ON public.messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+-- Users can't lift their own suspension
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (username, full_name, bio, avatar_url, website, is_private)
+  ON public.profiles TO authenticated;
+
+-- Open reports, oldest first, with enough of the reported content to judge
+-- it. Reported content may be private or hidden from the admin by a block,
+-- so this reads it as the definer once the caller is confirmed as an admin.
+CREATE OR REPLACE FUNCTION public.get_open_reports(
+  _cursor_created_at TIMESTAMPTZ DEFAULT NULL,
+  _cursor_id UUID DEFAULT NULL,
+  _limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMPTZ,
+  target_type TEXT,
+  reason TEXT,
+  details TEXT,
+  reporter_username TEXT,
+  post_id UUID,
+  comment_id UUID,
+  author_id UUID,
+  author_username TEXT,
+  author_avatar_url TEXT,
+  author_suspended_at TIMESTAMPTZ,
+  content TEXT,
+  media_url TEXT,
+  poster_url TEXT,
+  media_variants JSONB,
+  blurhash TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can review reports' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.id,
+    r.created_at,
+    r.target_type,
+    r.reason,
+    r.details,
+    reporter.username,
+    COALESCE(r.post_id, c.post_id),
+    r.comment_id,
+    author.id,
+    author.username,
+    author.avatar_url,
+    author.suspended_at,
+    CASE r.target_type
+      WHEN 'post' THEN p.caption
+      WHEN 'comment' THEN c.content
+      ELSE author.bio
+    END,
+    p.media_url,
+    p.poster_url,
+    p.media_variants,
+    p.blurhash
+  FROM public.reports r
+  LEFT JOIN public.profiles reporter ON reporter.id = r.reporter_id
+  LEFT JOIN public.posts p ON p.id = r.post_id
+  LEFT JOIN public.comments c ON c.id = r.comment_id
+  LEFT JOIN public.profiles author
+    ON author.id = COALESCE(p.user_id, c.user_id, r.profile_id)
+  WHERE r.status = 'open'
+  AND (
+    _cursor_created_at IS NULL
+    OR (r.created_at, r.id) > (_cursor_created_at, _cursor_id)
+  )
+  ORDER BY r.created_at, r.id
+  LIMIT LEAST(GREATEST(_limit, 1), 50);
+END;
+$$;
+
+-- Resolve a report. Acting on the content also closes every other open
+-- report about the same post, comment or profile.
+CREATE OR REPLACE FUNCTION public.moderate_report(_report_id UUID, _action TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.reports;
+  reported_id UUID;
+  author_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate reports' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO report
+  FROM public.reports
+  WHERE id = _report_id
+  AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found or already resolved';
+  END IF;
+
+  -- Content deleted by its owner since it was reported can only be dismissed
+  reported_id := COALESCE(report.post_id, report.comment_id, report.profile_id);
+  IF reported_id IS NULL AND _action <> 'dismiss' THEN
+    RAISE EXCEPTION 'The reported content no longer exists';
+  END IF;
+
+  author_id := CASE report.target_type
+    WHEN 'post' THEN (SELECT user_id FROM public.posts WHERE id = report.post_id)
+    WHEN 'comment' THEN (SELECT user_id FROM public.comments WHERE id = report.comment_id)
+    ELSE report.profile_id
+  END;
+
+  IF _action = 'dismiss' THEN
+    UPDATE public.reports
+    SET status = 'dismissed', resolved_at = NOW()
+    WHERE id = report.id;
+  ELSIF _action IN ('delete_content', 'suspend_user') THEN
+    IF _action = 'delete_content' AND report.target_type = 'profile' THEN
+      RAISE EXCEPTION 'Profiles cannot be deleted, suspend the account instead';
+    END IF;
+
+    -- Close the reports before the content goes and takes their ids with it
+    UPDATE public.reports
+    SET status = 'actioned', resolved_at = NOW()
+    WHERE status = 'open'
+    AND target_type = report.target_type
+    AND COALESCE(post_id, comment_id, profile_id) = reported_id;
+
+    IF _action = 'delete_content' THEN
+      DELETE FROM public.posts WHERE id = report.post_id;
+      DELETE FROM public.comments WHERE id = report.comment_id;
+    ELSE
+      UPDATE public.profiles
+      SET suspended_at = NOW()
+      WHERE id = author_id
+      AND suspended_at IS NULL;
+
+      -- Also stop them signing in again
+      UPDATE auth.users
+      SET banned_until = 'infinity'
+      WHERE id = author_id;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', _action;
+  END IF;
+
+  INSERT INTO public.moderation_actions
+    (admin_id, report_id, action, target_type, target_id, target_user_id)
+  VALUES
+    (auth.uid(), report.id, _action, report.target_type, reported_id, author_id);
+END;
+$$;
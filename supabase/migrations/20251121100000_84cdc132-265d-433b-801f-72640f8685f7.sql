@@ -0,0 +1,72 @@
+-- Quiet hours silence notifications instead of dropping them: the row is
+-- still stored for the notifications page, but no push or toast goes out
+ALTER TABLE public.notifications
+ADD COLUMN silent BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE OR REPLACE FUNCTION public.apply_notification_preferences()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  prefs public.notification_preferences;
+  local_time TIME;
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM public.notification_mutes
+    WHERE user_id = NEW.user_id
+    AND (muted_user_id = NEW.actor_id OR post_id = NEW.post_id)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO prefs
+  FROM public.notification_preferences
+  WHERE user_id = NEW.user_id;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT CASE NEW.type
+    WHEN 'like' THEN prefs.likes_enabled
+    WHEN 'comment' THEN prefs.comments_enabled
+    WHEN 'follow' THEN prefs.follows_enabled
+    WHEN 'mention' THEN prefs.mentions_enabled
+    ELSE TRUE
+  END THEN
+    RETURN NULL;
+  END IF;
+
+  IF prefs.only_following AND NOT EXISTS (
+    SELECT 1
+    FROM public.follows
+    WHERE follower_id = NEW.user_id
+    AND following_id = NEW.actor_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF prefs.quiet_hours_start IS NOT NULL THEN
+    local_time := (NOW() AT TIME ZONE prefs.timezone)::TIME;
+    NEW.silent := CASE
+      WHEN prefs.quiet_hours_start <= prefs.quiet_hours_end THEN
+        local_time >= prefs.quiet_hours_start AND local_time < prefs.quiet_hours_end
+      ELSE
+        local_time >= prefs.quiet_hours_start OR local_time < prefs.quiet_hours_end
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER dispatch_notifications_push ON public.notifications;
+
+CREATE TRIGGER dispatch_notifications_push
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW
+  WHEN (NOT NEW.silent)
+  EXECUTE FUNCTION public.dispatch_push_notification();
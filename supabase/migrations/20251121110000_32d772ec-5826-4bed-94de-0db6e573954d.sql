@@ -0,0 +1,86 @@
+-- Blocks also cut off direct messages: blocked accounts can't start a
+-- conversation with each other or keep writing in one they already share
+DROP POLICY "Participants can send messages" ON public.messages;
+
+CREATE POLICY "Participants can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_participant(conversation_id, auth.uid())
+    AND (char_length(btrim(content)) > 0 OR shared_post_id IS NOT NULL)
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.conversation_participants cp
+      WHERE cp.conversation_id = messages.conversation_id
+      AND cp.user_id != auth.uid()
+      AND public.is_blocked_between(auth.uid(), cp.user_id)
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.create_conversation(_participant_ids UUID[], _title TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _others UUID[];
+  _conversation_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT array_agg(DISTINCT p.id)
+  INTO _others
+  FROM public.profiles p
+  WHERE p.id = ANY(_participant_ids)
+  AND p.id != _user_id;
+
+  IF _others IS NULL THEN
+    RAISE EXCEPTION 'A conversation needs at least one other participant';
+  END IF;
+
+  IF array_length(_others, 1) > 31 THEN
+    RAISE EXCEPTION 'Group conversations are limited to 32 people';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM unnest(_others) AS other(id)
+    WHERE public.is_blocked_between(_user_id, other.id)
+  ) THEN
+    RAISE EXCEPTION 'Cannot start a conversation with a blocked account';
+  END IF;
+
+  IF array_length(_others, 1) = 1 THEN
+    SELECT c.id
+    INTO _conversation_id
+    FROM public.conversations c
+    WHERE NOT c.is_group
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = _user_id
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.conversation_participants cp
+      WHERE cp.conversation_id = c.id AND cp.user_id = _others[1]
+    )
+    LIMIT 1;
+
+    IF _conversation_id IS NOT NULL THEN
+      RETURN _conversation_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.conversations (created_by, title, is_group)
+  VALUES (_user_id, NULLIF(btrim(_title), ''), array_length(_others, 1) > 1)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+  SELECT _conversation_id, unnest(_others || _user_id);
+
+  RETURN _conversation_id;
+END;
+$$;
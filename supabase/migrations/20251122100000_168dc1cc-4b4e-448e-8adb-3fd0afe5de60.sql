@@ -0,0 +1,4 @@
+-- Hashtags and their post links are written only by sync_post_hashtags, so
+-- clients can't inflate post_count and push tags up trending and search
+DROP POLICY "Users can create hashtags for their own posts" ON public.post_hashtags;
+DROP POLICY "Authenticated users can create hashtags" ON public.hashtags;
@@ -0,0 +1,17 @@
+-- Stories always last 24 hours from when they are posted, whatever
+-- timestamps the client sends
+CREATE OR REPLACE FUNCTION public.set_story_lifetime()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_at := NOW();
+  NEW.expires_at := NOW() + INTERVAL '24 hours';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_stories_lifetime
+  BEFORE INSERT ON public.stories
+  FOR EACH ROW EXECUTE FUNCTION public.set_story_lifetime();
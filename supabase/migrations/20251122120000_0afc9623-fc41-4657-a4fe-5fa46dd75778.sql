@@ -0,0 +1,17 @@
+-- Messages are stamped by the server, so clients can't backdate or
+-- future-date them and reorder threads or the inbox
+CREATE OR REPLACE FUNCTION public.set_message_created_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_at := NOW();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_messages_created_at
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_message_created_at();
+
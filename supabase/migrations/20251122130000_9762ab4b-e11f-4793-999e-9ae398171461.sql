@@ -0,0 +1,25 @@
+-- Follows the followed user approved themselves, by accepting a request or
+-- by making their account public, don't also tell them "started following
+-- you". The requester gets follow_request_accepted from accept_follow_request.
+CREATE OR REPLACE FUNCTION public.notify_follow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF auth.uid() IS DISTINCT FROM NEW.following_id THEN
+      INSERT INTO public.notifications (user_id, actor_id, type)
+      VALUES (NEW.following_id, NEW.follower_id, 'follow');
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  DELETE FROM public.notifications
+  WHERE type = 'follow'
+  AND actor_id = OLD.follower_id
+  AND user_id = OLD.following_id;
+  RETURN OLD;
+END;
+$$;
@@ -0,0 +1,112 @@
+-- Suspension is the profile-level flag alone: it no longer bans the auth
+-- account, and admins can lift it.
+ALTER TABLE public.moderation_actions DROP CONSTRAINT moderation_actions_action_check;
+ALTER TABLE public.moderation_actions ADD CONSTRAINT moderation_actions_action_check
+  CHECK (action IN ('dismiss', 'delete_content', 'suspend_user', 'unsuspend_user'));
+
+-- Lift the sign-in bans the previous moderate_report set
+UPDATE auth.users
+SET banned_until = NULL
+WHERE banned_until = 'infinity'
+AND id IN (SELECT id FROM public.profiles WHERE suspended_at IS NOT NULL);
+
+CREATE OR REPLACE FUNCTION public.moderate_report(_report_id UUID, _action TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report public.reports;
+  reported_id UUID;
+  author_id UUID;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can moderate reports' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO report
+  FROM public.reports
+  WHERE id = _report_id
+  AND status = 'open'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report not found or already resolved';
+  END IF;
+
+  -- Content deleted by its owner since it was reported can only be dismissed
+  reported_id := COALESCE(report.post_id, report.comment_id, report.profile_id);
+  IF reported_id IS NULL AND _action <> 'dismiss' THEN
+    RAISE EXCEPTION 'The reported content no longer exists';
+  END IF;
+
+  author_id := CASE report.target_type
+    WHEN 'post' THEN (SELECT user_id FROM public.posts WHERE id = report.post_id)
+    WHEN 'comment' THEN (SELECT user_id FROM public.comments WHERE id = report.comment_id)
+    ELSE report.profile_id
+  END;
+
+  IF _action = 'dismiss' THEN
+    UPDATE public.reports
+    SET status = 'dismissed', resolved_at = NOW()
+    WHERE id = report.id;
+  ELSIF _action IN ('delete_content', 'suspend_user') THEN
+    IF _action = 'delete_content' AND report.target_type = 'profile' THEN
+      RAISE EXCEPTION 'Profiles cannot be deleted, suspend the account instead';
+    END IF;
+
+    -- Close the reports before the content goes and takes their ids with it
+    UPDATE public.reports
+    SET status = 'actioned', resolved_at = NOW()
+    WHERE status = 'open'
+    AND target_type = report.target_type
+    AND COALESCE(post_id, comment_id, profile_id) = reported_id;
+
+    IF _action = 'delete_content' THEN
+      DELETE FROM public.posts WHERE id = report.post_id;
+      DELETE FROM public.comments WHERE id = report.comment_id;
+    ELSE
+      UPDATE public.profiles
+      SET suspended_at = NOW()
+      WHERE id = author_id
+      AND suspended_at IS NULL;
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', _action;
+  END IF;
+
+  INSERT INTO public.moderation_actions
+    (admin_id, report_id, action, target_type, target_id, target_user_id)
+  VALUES
+    (auth.uid(), report.id, _action, report.target_type, reported_id, author_id);
+END;
+$$;
+
+-- Lift a suspension. Not tied to a report, so it is audited on its own.
+CREATE OR REPLACE FUNCTION public.unsuspend_user(_user_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can lift suspensions' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.profiles
+  SET suspended_at = NULL
+  WHERE id = _user_id
+  AND suspended_at IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account not found or not suspended';
+  END IF;
+
+  INSERT INTO public.moderation_actions
+    (admin_id, action, target_type, target_id, target_user_id)
+  VALUES
+    (auth.uid(), 'unsuspend_user', 'profile', _user_id, _user_id);
+END;
+$$;
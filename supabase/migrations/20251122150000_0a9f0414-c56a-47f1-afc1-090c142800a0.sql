@@ -0,0 +1,25 @@
+-- Suspended accounts can't interact at all with a session they still hold,
+-- not just publish
+CREATE POLICY "Suspended users cannot edit posts"
+  ON public.posts AS RESTRICTIVE FOR UPDATE
+  USING (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot edit comments"
+  ON public.comments AS RESTRICTIVE FOR UPDATE
+  USING (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot like posts"
+  ON public.likes AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot follow"
+  ON public.follows AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot request to follow"
+  ON public.follow_requests AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot file reports"
+  ON public.reports AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
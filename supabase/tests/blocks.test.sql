@@ -0,0 +1,120 @@
+-- Blocks cut every tie between two accounts; mutes only trim the home feed.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(11);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{"username": "bob"}'),
+  ('33333333-3333-3333-3333-333333333333', 'carol@example.com', '{"username": "carol"}');
+
+INSERT INTO public.posts (id, user_id, media_url, media_type) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'https://example.com/a.jpg', 'image'),
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', '33333333-3333-3333-3333-333333333333',
+   'https://example.com/c.jpg', 'image');
+
+INSERT INTO public.follows (follower_id, following_id) VALUES
+  ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222'),
+  ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111'),
+  ('22222222-2222-2222-2222-222222222222', '33333333-3333-3333-3333-333333333333');
+
+-- Bob comments on carol's post and messages alice before she blocks him
+INSERT INTO public.comments (user_id, post_id, content)
+VALUES ('22222222-2222-2222-2222-222222222222', 'cccccccc-cccc-cccc-cccc-cccccccccccc', 'Hi');
+
+INSERT INTO public.conversations (id, created_by)
+VALUES ('dddddddd-dddd-dddd-dddd-dddddddddddd', '22222222-2222-2222-2222-222222222222');
+INSERT INTO public.conversation_participants (conversation_id, user_id) VALUES
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', '11111111-1111-1111-1111-111111111111'),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', '22222222-2222-2222-2222-222222222222');
+
+INSERT INTO public.blocks (blocker_id, blocked_id)
+VALUES ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222');
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.follows
+   WHERE '11111111-1111-1111-1111-111111111111' IN (follower_id, following_id)),
+  0,
+  'blocking removes follows in both directions'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE '11111111-1111-1111-1111-111111111111' IN (user_id, actor_id)),
+  0,
+  'blocking removes notifications between the two accounts'
+);
+
+-- Act as bob
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.profiles WHERE id = '11111111-1111-1111-1111-111111111111' $$,
+  'blocked users cannot see the blocker''s profile'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.posts WHERE user_id = '11111111-1111-1111-1111-111111111111' $$,
+  'blocked users cannot see the blocker''s posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111') $$,
+  '42501',
+  NULL,
+  'blocked users cannot follow the blocker'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.messages (conversation_id, sender_id, content)
+     VALUES ('dddddddd-dddd-dddd-dddd-dddddddddddd', '22222222-2222-2222-2222-222222222222', 'Hello?') $$,
+  '42501',
+  NULL,
+  'blocked users cannot message the blocker in an existing conversation'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.create_conversation(ARRAY['11111111-1111-1111-1111-111111111111'::UUID]) $$,
+  'P0001',
+  'Cannot start a conversation with a blocked account',
+  'blocked users cannot start a conversation with the blocker'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.blocks $$,
+  'blocked users cannot see who blocked them'
+);
+
+-- Act as alice
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.comments WHERE user_id = '22222222-2222-2222-2222-222222222222' $$,
+  'blocked users'' comments are hidden on other people''s posts'
+);
+
+SELECT results_eq(
+  $$ SELECT username FROM public.get_blocked_accounts() $$,
+  $$ VALUES ('bob'::TEXT) $$,
+  'blockers can list who they blocked'
+);
+
+-- Mutes
+INSERT INTO public.follows (follower_id, following_id)
+VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333');
+INSERT INTO public.mutes (user_id, muted_user_id)
+VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333');
+
+SELECT results_eq(
+  $$ SELECT id FROM public.get_home_feed() $$,
+  $$ VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::UUID) $$,
+  'muted accounts are left out of the home feed'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
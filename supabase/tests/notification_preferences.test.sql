@@ -0,0 +1,105 @@
+-- Notification preferences and mutes are applied before notifications are
+-- stored. Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{"username": "bob"}'),
+  ('33333333-3333-3333-3333-333333333333', 'carol@example.com', '{"username": "carol"}');
+
+INSERT INTO public.posts (id, user_id, media_url, media_type) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'https://example.com/a.jpg', 'image'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '11111111-1111-1111-1111-111111111111',
+   'https://example.com/b.jpg', 'image');
+
+-- Per-type toggles
+INSERT INTO public.notification_preferences (user_id, likes_enabled)
+VALUES ('11111111-1111-1111-1111-111111111111', false);
+
+INSERT INTO public.likes (user_id, post_id)
+VALUES ('22222222-2222-2222-2222-222222222222', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+INSERT INTO public.follows (follower_id, following_id)
+VALUES ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'like'),
+  0,
+  'disabled notification types are not stored'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'follow'),
+  1,
+  'enabled notification types are still stored'
+);
+
+-- Only from people I follow
+UPDATE public.notification_preferences
+SET likes_enabled = true, only_following = true
+WHERE user_id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.follows (follower_id, following_id)
+VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333');
+INSERT INTO public.likes (user_id, post_id) VALUES
+  ('22222222-2222-2222-2222-222222222222', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  ('33333333-3333-3333-3333-333333333333', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb');
+
+SELECT results_eq(
+  $$ SELECT actor_id FROM public.notifications WHERE type = 'like' $$,
+  $$ VALUES ('33333333-3333-3333-3333-333333333333'::UUID) $$,
+  'only_following drops notifications from accounts the user does not follow'
+);
+
+-- Mutes
+UPDATE public.notification_preferences
+SET only_following = false
+WHERE user_id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.notification_mutes (user_id, post_id)
+VALUES ('11111111-1111-1111-1111-111111111111', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+INSERT INTO public.notification_mutes (user_id, muted_user_id)
+VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333');
+
+INSERT INTO public.likes (user_id, post_id)
+VALUES ('33333333-3333-3333-3333-333333333333', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+INSERT INTO public.comments (user_id, post_id, content)
+VALUES ('22222222-2222-2222-2222-222222222222', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Hi');
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE post_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  0,
+  'muted posts and accounts do not notify'
+);
+
+-- Quiet hours around the current time
+UPDATE public.notification_preferences
+SET quiet_hours_start = (NOW() AT TIME ZONE 'UTC')::TIME - INTERVAL '1 hour',
+    quiet_hours_end = (NOW() AT TIME ZONE 'UTC')::TIME + INTERVAL '1 hour',
+    timezone = 'UTC'
+WHERE user_id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.comments (user_id, post_id, content)
+VALUES ('22222222-2222-2222-2222-222222222222', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Hi');
+
+SELECT results_eq(
+  $$ SELECT silent FROM public.notifications WHERE type = 'comment' $$,
+  $$ VALUES (TRUE) $$,
+  'notifications during quiet hours are stored silently'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.notification_preferences
+     SET timezone = 'Not/AZone'
+     WHERE user_id = '11111111-1111-1111-1111-111111111111' $$,
+  '22023',
+  NULL,
+  'unknown timezones are rejected'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
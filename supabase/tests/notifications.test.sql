@@ -0,0 +1,183 @@
+-- Notifications are written by database triggers only. Run against the local
+-- stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(14);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{"username": "bob"}'),
+  ('33333333-3333-3333-3333-333333333333', 'carol@example.com', '{"username": "carol"}');
+
+INSERT INTO public.posts (id, user_id, media_url, media_type, caption) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'https://example.com/a.jpg', 'image', 'Hello');
+
+-- Act as bob from here on
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+-- Forged notifications are rejected
+SELECT throws_ok(
+  $$ INSERT INTO public.notifications (user_id, actor_id, type)
+     VALUES ('11111111-1111-1111-1111-111111111111', '22222222-2222-2222-2222-222222222222', 'follow') $$,
+  '42501',
+  NULL,
+  'users cannot insert notifications, even as themselves'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.notifications (user_id, actor_id, type)
+     VALUES ('11111111-1111-1111-1111-111111111111', '33333333-3333-3333-3333-333333333333', 'like') $$,
+  '42501',
+  NULL,
+  'users cannot insert notifications on behalf of someone else'
+);
+
+-- Likes
+INSERT INTO public.likes (user_id, post_id)
+VALUES ('22222222-2222-2222-2222-222222222222', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa');
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE type = 'like' AND user_id = '11111111-1111-1111-1111-111111111111'
+   AND actor_id = '22222222-2222-2222-2222-222222222222'),
+  1,
+  'liking a post notifies its author'
+);
+SET LOCAL role authenticated;
+
+DELETE FROM public.likes
+WHERE user_id = '22222222-2222-2222-2222-222222222222'
+AND post_id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'like'),
+  0,
+  'unliking retracts the like notification'
+);
+
+-- Follows
+SET LOCAL role authenticated;
+INSERT INTO public.follows (follower_id, following_id)
+VALUES ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE type = 'follow' AND user_id = '11111111-1111-1111-1111-111111111111'),
+  1,
+  'following notifies the followed user'
+);
+SET LOCAL role authenticated;
+
+DELETE FROM public.follows
+WHERE follower_id = '22222222-2222-2222-2222-222222222222'
+AND following_id = '11111111-1111-1111-1111-111111111111';
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'follow'),
+  0,
+  'unfollowing retracts the follow notification'
+);
+
+-- Comments and mentions in comments
+SET LOCAL role authenticated;
+INSERT INTO public.comments (id, user_id, post_id, content) VALUES
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', '22222222-2222-2222-2222-222222222222',
+   'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'Nice one @carol and @bob');
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE type = 'comment' AND user_id = '11111111-1111-1111-1111-111111111111'
+   AND comment_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc'),
+  1,
+  'commenting notifies the post author'
+);
+
+SELECT results_eq(
+  $$ SELECT user_id FROM public.notifications
+     WHERE type = 'mention' AND comment_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc' $$,
+  $$ VALUES ('33333333-3333-3333-3333-333333333333'::UUID) $$,
+  'mentions in a comment notify everyone mentioned except the author'
+);
+SET LOCAL role authenticated;
+
+UPDATE public.comments
+SET content = 'Nice one'
+WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications
+   WHERE type = 'mention' AND comment_id = 'cccccccc-cccc-cccc-cccc-cccccccccccc'),
+  0,
+  'editing a mention out of a comment retracts it'
+);
+SET LOCAL role authenticated;
+
+DELETE FROM public.comments WHERE id = 'cccccccc-cccc-cccc-cccc-cccccccccccc';
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'comment'),
+  0,
+  'deleting a comment retracts its notification'
+);
+
+-- Mentions in captions, as alice
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+UPDATE public.posts
+SET caption = 'With @bob and @bob again, email me at x@carol.com'
+WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+RESET role;
+SELECT results_eq(
+  $$ SELECT user_id FROM public.notifications
+     WHERE type = 'mention' AND comment_id IS NULL $$,
+  $$ VALUES ('22222222-2222-2222-2222-222222222222'::UUID) $$,
+  'mentions in a caption notify each user once and ignore email addresses'
+);
+SET LOCAL role authenticated;
+
+UPDATE public.posts
+SET caption = 'With @bob and now @carol'
+WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa';
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE type = 'mention'),
+  2,
+  're-saving a caption does not notify existing mentions twice'
+);
+SET LOCAL role authenticated;
+
+-- Recipients can only mark their notifications as read
+SELECT throws_ok(
+  $$ UPDATE public.notifications
+     SET actor_id = '11111111-1111-1111-1111-111111111111'
+     WHERE user_id = '11111111-1111-1111-1111-111111111111' $$,
+  '42501',
+  NULL,
+  'recipients cannot rewrite who a notification is from'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+UPDATE public.notifications SET is_read = true;
+
+RESET role;
+SELECT is(
+  (SELECT count(*)::INT FROM public.notifications WHERE is_read),
+  1,
+  'recipients can mark only their own notifications as read'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
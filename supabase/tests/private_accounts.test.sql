@@ -0,0 +1,88 @@
+-- Private accounts hide their content until a follow request is accepted.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{"username": "bob"}');
+
+UPDATE public.profiles SET is_private = true
+WHERE id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.posts (id, user_id, media_url, media_type) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+   'https://example.com/a.jpg', 'image');
+
+-- Act as bob
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.posts $$,
+  'posts from private accounts are hidden from non-followers'
+);
+
+SELECT is(
+  public.count_user_posts('11111111-1111-1111-1111-111111111111'),
+  1,
+  'post counts are still visible'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.likes (user_id, post_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa') $$,
+  '42501',
+  NULL,
+  'non-followers cannot like private posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111') $$,
+  '42501',
+  NULL,
+  'private accounts cannot be followed directly'
+);
+
+INSERT INTO public.follow_requests (id, requester_id, target_id)
+VALUES ('cccccccc-cccc-cccc-cccc-cccccccccccc',
+        '22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111');
+
+SELECT throws_ok(
+  $$ SELECT public.accept_follow_request('cccccccc-cccc-cccc-cccc-cccccccccccc') $$,
+  'P0001',
+  'Follow request not found',
+  'requesters cannot accept their own requests'
+);
+
+-- Act as alice
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+SELECT public.accept_follow_request('cccccccc-cccc-cccc-cccc-cccccccccccc');
+
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM public.posts $$,
+  $$ VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'::UUID) $$,
+  'accepted followers can see private posts'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM public.follow_requests $$,
+  'accepted requests are removed'
+);
+
+RESET role;
+SELECT results_eq(
+  $$ SELECT user_id, actor_id, type FROM public.notifications ORDER BY type $$,
+  $$ VALUES ('22222222-2222-2222-2222-222222222222'::UUID,
+             '11111111-1111-1111-1111-111111111111'::UUID,
+             'follow_request_accepted'::TEXT) $$,
+  'accepting a request only notifies the requester'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,186 @@
+-- Reports are resolved by admins only, and every resolution is audited.
+-- Suspended accounts can't interact until an admin lifts the suspension.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(17);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com', '{"username": "bob"}'),
+  ('99999999-9999-9999-9999-999999999999', 'admin@example.com', '{"username": "admin"}');
+
+INSERT INTO public.user_roles (user_id, role)
+VALUES ('99999999-9999-9999-9999-999999999999', 'admin');
+
+UPDATE public.profiles SET is_private = true
+WHERE id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.posts (id, user_id, media_url, media_type) VALUES
+  ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '22222222-2222-2222-2222-222222222222',
+   'https://example.com/a.jpg', 'image'),
+  ('bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', '22222222-2222-2222-2222-222222222222',
+   'https://example.com/b.jpg', 'image');
+
+INSERT INTO public.comments (id, user_id, post_id, content)
+VALUES ('eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee', '22222222-2222-2222-2222-222222222222',
+        'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'Nice');
+
+-- Act as alice
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.reports (id, reporter_id, target_type, post_id, reason) VALUES
+  ('cccccccc-cccc-cccc-cccc-cccccccccccc', '11111111-1111-1111-1111-111111111111',
+   'post', 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', 'spam'),
+  ('dddddddd-dddd-dddd-dddd-dddddddddddd', '11111111-1111-1111-1111-111111111111',
+   'post', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb', 'harassment');
+
+SELECT throws_ok(
+  $$ SELECT * FROM public.get_open_reports() $$,
+  '42501',
+  NULL,
+  'non-admins cannot read the moderation queue'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.moderate_report('cccccccc-cccc-cccc-cccc-cccccccccccc', 'dismiss') $$,
+  '42501',
+  NULL,
+  'non-admins cannot resolve reports'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.profiles SET suspended_at = NULL
+     WHERE id = '11111111-1111-1111-1111-111111111111' $$,
+  '42501',
+  NULL,
+  'users cannot change their own suspension'
+);
+
+-- Act as the admin
+SELECT set_config('request.jwt.claims', '{"sub": "99999999-9999-9999-9999-999999999999", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.get_open_reports()),
+  2,
+  'admins see every open report'
+);
+
+SELECT public.moderate_report('cccccccc-cccc-cccc-cccc-cccccccccccc', 'delete_content');
+SELECT public.moderate_report('dddddddd-dddd-dddd-dddd-dddddddddddd', 'suspend_user');
+
+RESET role;
+
+SELECT is_empty(
+  $$ SELECT id FROM public.posts WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa' $$,
+  'deleting content removes it'
+);
+
+SELECT isnt(
+  (SELECT suspended_at FROM public.profiles WHERE id = '22222222-2222-2222-2222-222222222222'),
+  NULL,
+  'suspending marks the author as suspended'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM public.reports WHERE status = 'open'),
+  0,
+  'acted-on reports are closed'
+);
+
+SELECT results_eq(
+  $$ SELECT action FROM public.moderation_actions ORDER BY created_at, action $$,
+  $$ VALUES ('delete_content'::TEXT), ('suspend_user'::TEXT) $$,
+  'every action is written to the audit log'
+);
+
+-- Act as bob, who is now suspended
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.likes (user_id, post_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb') $$,
+  '42501',
+  NULL,
+  'suspended users cannot like posts'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follows (follower_id, following_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', '99999999-9999-9999-9999-999999999999') $$,
+  '42501',
+  NULL,
+  'suspended users cannot follow'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.follow_requests (requester_id, target_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', '11111111-1111-1111-1111-111111111111') $$,
+  '42501',
+  NULL,
+  'suspended users cannot request to follow'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.reports (reporter_id, target_type, profile_id, reason)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'profile',
+             '11111111-1111-1111-1111-111111111111', 'spam') $$,
+  '42501',
+  NULL,
+  'suspended users cannot file reports'
+);
+
+UPDATE public.posts SET caption = 'Edited'
+WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb';
+UPDATE public.comments SET content = 'Edited'
+WHERE id = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee';
+
+RESET role;
+
+SELECT is(
+  (SELECT caption FROM public.posts WHERE id = 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb'),
+  NULL,
+  'suspended users cannot edit their posts'
+);
+
+SELECT is(
+  (SELECT content FROM public.comments WHERE id = 'eeeeeeee-eeee-eeee-eeee-eeeeeeeeeeee'),
+  'Nice',
+  'suspended users cannot edit their comments'
+);
+
+-- Act as alice
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT throws_ok(
+  $$ SELECT public.unsuspend_user('22222222-2222-2222-2222-222222222222') $$,
+  '42501',
+  NULL,
+  'non-admins cannot lift suspensions'
+);
+
+-- Act as the admin
+SELECT set_config('request.jwt.claims', '{"sub": "99999999-9999-9999-9999-999999999999", "role": "authenticated"}', true);
+SELECT public.unsuspend_user('22222222-2222-2222-2222-222222222222');
+
+SELECT is(
+  (SELECT suspended_at FROM public.profiles WHERE id = '22222222-2222-2222-2222-222222222222'),
+  NULL,
+  'admins can lift a suspension'
+);
+
+-- Act as bob again
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.likes (user_id, post_id)
+     VALUES ('22222222-2222-2222-2222-222222222222', 'bbbbbbbb-bbbb-bbbb-bbbb-bbbbbbbbbbbb') $$,
+  'unsuspended users can interact again'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
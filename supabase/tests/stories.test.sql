@@ -0,0 +1,34 @@
+-- Stories expire 24 hours after posting, whatever the client asks for.
+-- Run against the local stack with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(2);
+
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com', '{"username": "alice"}');
+
+-- Act as alice
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+INSERT INTO public.stories (id, user_id, media_url, media_type, created_at, expires_at)
+VALUES ('aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa', '11111111-1111-1111-1111-111111111111',
+        'https://example.com/a.jpg', 'image', '2000-01-01', '2099-01-01');
+
+RESET role;
+
+SELECT is(
+  (SELECT expires_at FROM public.stories WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  NOW() + INTERVAL '24 hours',
+  'a client-supplied expiry is ignored'
+);
+
+SELECT is(
+  (SELECT created_at FROM public.stories WHERE id = 'aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa'),
+  NOW(),
+  'a client-supplied creation time is ignored'
+);
+
+SELECT * FROM finish();
+ROLLBACK;